@@ -0,0 +1,247 @@
+// @vitest-environment jsdom
+
+import { act } from "react";
+import { type Root, createRoot } from "react-dom/client";
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+import {
+	StickToBottom,
+	type StickToBottomContext,
+	type StickToBottomProps,
+} from "./StickToBottom.js";
+import { createTestEnvironment } from "./testing.js";
+
+const cleanups: (() => void)[] = [];
+
+beforeAll(() => {
+	Object.assign(globalThis, { IS_REACT_ACT_ENVIRONMENT: true });
+});
+
+afterEach(async () => {
+	for (const cleanup of cleanups.splice(0)) {
+		await act(async () => cleanup());
+	}
+});
+
+/**
+ * jsdom doesn't lay anything out, so give the element a fixed scroll height
+ * and a scroll position. Like a browser, scrolling dispatches `scroll` on the
+ * element, or on the document when the document itself scrolls, inside `act`.
+ */
+function fakeScrollLayout(
+	element: HTMLElement,
+	{
+		scrollHeight,
+		clientHeight,
+	}: { scrollHeight: number; clientHeight: number },
+) {
+	let scrollTop = 0;
+
+	Object.defineProperties(element, {
+		scrollTop: {
+			configurable: true,
+			get: () => scrollTop,
+			set(value: number) {
+				scrollTop = Math.max(0, Math.min(value, scrollHeight - clientHeight));
+			},
+		},
+		scrollHeight: { configurable: true, get: () => scrollHeight },
+		clientHeight: { configurable: true, get: () => clientHeight },
+	});
+
+	return {
+		scrollTo(value: number) {
+			return act(() => {
+				element.scrollTop = value;
+
+				if (element === element.ownerDocument.documentElement) {
+					element.ownerDocument.dispatchEvent(
+						new Event("scroll", { bubbles: true }),
+					);
+				} else {
+					element.dispatchEvent(new Event("scroll"));
+				}
+			});
+		},
+		restore() {
+			for (const key of ["scrollTop", "scrollHeight", "clientHeight"]) {
+				delete (element as unknown as Record<string, unknown>)[key];
+			}
+		},
+	};
+}
+
+async function render(props: Omit<StickToBottomProps, "environment">) {
+	const env = createTestEnvironment();
+	const container = document.createElement("div");
+	document.body.append(container);
+
+	let root: Root | undefined;
+	let context: StickToBottomContext | null = null;
+
+	const rerender = ({
+		children,
+		...props
+	}: Omit<StickToBottomProps, "environment">) =>
+		act(async () => {
+			root ??= createRoot(container);
+			root.render(
+				<StickToBottom
+					initial="instant"
+					resize="instant"
+					{...props}
+					environment={env.environment}
+					contextRef={(value) => {
+						context = value;
+					}}
+				>
+					{children}
+				</StickToBottom>,
+			);
+		});
+
+	await rerender(props);
+
+	cleanups.push(() => {
+		root?.unmount();
+		container.remove();
+	});
+
+	const frame = (count: number) => act(() => env.frame(count));
+
+	return {
+		container,
+		frame,
+		rerender,
+		get context() {
+			return context!;
+		},
+	};
+}
+
+describe("StickToBottom.ScrollButton", () => {
+	it("appears once scrolled away with the distance, and scrolls back down", async () => {
+		const { container, context, frame } = await render({
+			children: (
+				<>
+					<StickToBottom.Content>Messages</StickToBottom.Content>
+					<StickToBottom.ScrollButton animation="instant">
+						{({ distance }) => `${distance}px below`}
+					</StickToBottom.ScrollButton>
+				</>
+			),
+		});
+
+		const scrollElement = context.scrollRef.current!;
+		const layout = fakeScrollLayout(scrollElement, {
+			scrollHeight: 1000,
+			clientHeight: 500,
+		});
+		await frame(5);
+
+		expect(scrollElement.scrollTop).toBe(499);
+		expect(container.querySelector("button")).toBeNull();
+
+		await layout.scrollTo(200);
+		await frame(2);
+
+		const button = container.querySelector("button")!;
+		expect(button.getAttribute("aria-label")).toBe("Scroll to bottom");
+		expect(button.textContent).toBe("299px below");
+
+		await layout.scrollTo(100);
+		await frame(2);
+
+		expect(button.textContent).toBe("399px below");
+
+		await act(async () => button.click());
+		await frame(5);
+
+		expect(scrollElement.scrollTop).toBe(499);
+		expect(container.querySelector("button")).toBeNull();
+	});
+
+	it("tracks the distance when scrolling the window", async () => {
+		const { container, frame } = await render({
+			scrollElement: "window",
+			children: (
+				<>
+					<StickToBottom.Content>Messages</StickToBottom.Content>
+					<StickToBottom.ScrollButton>
+						{({ distance }) => `${distance}px below`}
+					</StickToBottom.ScrollButton>
+				</>
+			),
+		});
+
+		const layout = fakeScrollLayout(document.documentElement, {
+			scrollHeight: 2000,
+			clientHeight: window.innerHeight,
+		});
+		cleanups.push(layout.restore);
+
+		const maxScrollTop = 2000 - 1 - window.innerHeight;
+
+		await layout.scrollTo(maxScrollTop);
+		await frame(2);
+		await layout.scrollTo(maxScrollTop - 300);
+		await frame(2);
+
+		expect(container.querySelector("button")?.textContent).toBe("300px below");
+
+		await layout.scrollTo(maxScrollTop - 400);
+		await frame(2);
+
+		expect(container.querySelector("button")?.textContent).toBe("400px below");
+	});
+});
+
+describe("StickToBottom.Content", () => {
+	it("renders the SSR script only when starting at the bottom", async () => {
+		const content = (
+			<StickToBottom.Content ssr={{ nonce: "abc" }}>
+				Messages
+			</StickToBottom.Content>
+		);
+
+		const atBottom = await render({ children: content });
+		const script = atBottom.container.querySelector("script");
+		expect(script?.nonce).toBe("abc");
+		expect(script?.previousElementSibling).toBe(
+			atBottom.context.scrollRef.current,
+		);
+
+		for (const props of [
+			{ direction: "top" },
+			{ initial: false },
+			{ scrollElement: "window" },
+			{ persistenceId: "chat" },
+		] as const) {
+			const { container } = await render({ ...props, children: content });
+			expect(container.querySelector("script")).toBeNull();
+		}
+	});
+});
+
+describe("StickToBottom", () => {
+	it("only restores an inline snapshot once", async () => {
+		const props = () => ({
+			restore: { isAtBottom: false, escapedFromLock: true },
+			children: <StickToBottom.Content>Messages</StickToBottom.Content>,
+		});
+		const { context, frame, rerender } = await render(props());
+
+		expect(context.getSnapshot()).toMatchObject({ escapedFromLock: true });
+
+		await act(async () => {
+			context.scrollToBottom("instant");
+		});
+		await frame(2);
+
+		const snapshot = context.getSnapshot();
+		expect(snapshot.isAtBottom).toBe(true);
+
+		await rerender(props());
+
+		expect(context.getSnapshot()).toEqual(snapshot);
+	});
+});
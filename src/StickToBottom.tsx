@@ -6,21 +6,40 @@
 import * as React from "react";
 import {
 	type ReactNode,
+	cloneElement,
 	createContext,
+	isValidElement,
 	useContext,
 	useEffect,
 	useImperativeHandle,
 	useLayoutEffect,
 	useMemo,
 	useRef,
+	useState,
 } from "react";
+import type {
+	Animation,
+	GetTargetScrollTop,
+	ScrollTo,
+	ScrollToBottom,
+	ScrollToElement,
+	StickToBottomController,
+	StickToBottomDirection,
+	StickToBottomState,
+	StickToBottomUnread,
+	StickToBottomVirtualizer,
+	StopScroll,
+} from "./createStickToBottom.js";
+import {
+	type StickToBottomDebugState,
+	type StickToBottomRecorder,
+	createStickToBottomRecorder,
+	getDebugState,
+} from "./recorder.js";
+import { latestItemTop as latestItemTopTarget } from "./targets.js";
 import {
-	type GetTargetScrollTop,
-	type ScrollToBottom,
 	type StickToBottomInstance,
-	type StickToBottomOptions,
-	type StickToBottomState,
-	type StopScroll,
+	type UseStickToBottomOptions,
 	useStickToBottom,
 } from "./useStickToBottom.js";
 
@@ -31,8 +50,22 @@ export interface StickToBottomContext {
 		React.RefCallback<HTMLElement>;
 	scrollToBottom: ScrollToBottom;
 	stopScroll: StopScroll;
+	scrollTo: ScrollTo;
+	scrollToElement: ScrollToElement;
+	subscribe: StickToBottomController["subscribe"];
+	getSnapshot: StickToBottomController["getSnapshot"];
+	setVirtualizer: StickToBottomController["setVirtualizer"];
+	measure: StickToBottomController["measure"];
+	observe: StickToBottomController["observe"];
+	hold: StickToBottomController["hold"];
+	/**
+	 * What scroll events are dispatched on, which is the window when
+	 * `scrollElement="window"` rather than the element `scrollRef` is attached to.
+	 */
+	readonly scrollEventTarget: StickToBottomController["scrollEventTarget"];
 	isAtBottom: boolean;
 	escapedFromLock: boolean;
+	unread: StickToBottomUnread;
 	get targetScrollTop(): GetTargetScrollTop | null;
 	set targetScrollTop(targetScrollTop: GetTargetScrollTop | null);
 	state: StickToBottomState;
@@ -40,9 +73,27 @@ export interface StickToBottomContext {
 
 const StickToBottomContext = createContext<StickToBottomContext | null>(null);
 
+interface StickToBottomLayout {
+	direction: StickToBottomDirection;
+	/**
+	 * Whether the scroll element starts at the bottom, which is the only case
+	 * the SSR script can position it in before it's hydrated.
+	 */
+	startsAtBottom: boolean;
+}
+
+/**
+ * The options that decide how the parts are laid out, which the
+ * controller doesn't expose.
+ */
+const StickToBottomLayoutContext = createContext<StickToBottomLayout>({
+	direction: "bottom",
+	startsAtBottom: true,
+});
+
 export interface StickToBottomProps
 	extends Omit<React.HTMLAttributes<HTMLDivElement>, "children">,
-		StickToBottomOptions {
+		UseStickToBottomOptions {
 	contextRef?: React.Ref<StickToBottomContext>;
 	instance?: StickToBottomInstance;
 	children: ((context: StickToBottomContext) => ReactNode) | ReactNode;
@@ -59,6 +110,29 @@ export function StickToBottom({
 	mass,
 	damping,
 	stiffness,
+	maxLag,
+	direction,
+	scrollElement,
+	keyMap,
+	nearBottomOffset,
+	reengageOffset,
+	nearBottomHysteresis,
+	onEscape,
+	onReengage,
+	onNearBottomChange,
+	onScrollAnimationStart,
+	onScrollAnimationComplete,
+	onScrollAnimationCancel,
+	onUnreadChange,
+	onReachTop,
+	reachTopOffset,
+	reducedMotion,
+	environment,
+	whileSelecting,
+	whileFocused,
+	restore,
+	persistenceId,
+	storage,
 	targetScrollTop: currentTargetScrollTop,
 	contextRef,
 	...props
@@ -77,8 +151,31 @@ export function StickToBottom({
 		mass,
 		damping,
 		stiffness,
+		maxLag,
 		resize,
 		initial,
+		direction,
+		scrollElement,
+		keyMap,
+		nearBottomOffset,
+		reengageOffset,
+		nearBottomHysteresis,
+		onEscape,
+		onReengage,
+		onNearBottomChange,
+		onScrollAnimationStart,
+		onScrollAnimationComplete,
+		onScrollAnimationCancel,
+		onUnreadChange,
+		onReachTop,
+		reachTopOffset,
+		reducedMotion,
+		environment,
+		whileSelecting,
+		whileFocused,
+		restore,
+		persistenceId,
+		storage,
 		targetScrollTop,
 	});
 
@@ -87,20 +184,48 @@ export function StickToBottom({
 		contentRef,
 		scrollToBottom,
 		stopScroll,
+		scrollTo,
+		scrollToElement,
+		subscribe,
+		getSnapshot,
+		setVirtualizer,
+		measure,
+		observe,
+		hold,
 		isAtBottom,
 		escapedFromLock,
+		unread,
 		state,
 	} = instance ?? defaultInstance;
 
+	/**
+	 * The scroll event target is only known once the elements are attached,
+	 * so it's read from the latest instance rather than during render.
+	 */
+	const latestInstance = useRef(instance ?? defaultInstance);
+	latestInstance.current = instance ?? defaultInstance;
+
 	const context = useMemo<StickToBottomContext>(
 		() => ({
 			scrollToBottom,
 			stopScroll,
+			scrollTo,
+			scrollToElement,
+			subscribe,
+			getSnapshot,
+			setVirtualizer,
+			measure,
+			observe,
+			hold,
 			scrollRef,
 			isAtBottom,
 			escapedFromLock,
+			unread,
 			contentRef,
 			state,
+			get scrollEventTarget() {
+				return latestInstance.current.scrollEventTarget;
+			},
 			get targetScrollTop() {
 				return customTargetScrollTop.current;
 			},
@@ -114,57 +239,687 @@ export function StickToBottom({
 			contentRef,
 			scrollRef,
 			stopScroll,
+			scrollTo,
+			scrollToElement,
+			subscribe,
+			getSnapshot,
+			setVirtualizer,
+			measure,
+			observe,
+			hold,
 			escapedFromLock,
+			unread,
 			state,
 		],
 	);
 
 	useImperativeHandle(contextRef, () => context, [context]);
 
+	/**
+	 * A custom `instance` was created with its own options, which aren't known
+	 * here, so it's up to whoever created it whether to render the script.
+	 */
+	const startsAtBottom =
+		!!instance ||
+		(direction !== "top" &&
+			initial !== false &&
+			scrollElement !== "window" &&
+			!restore &&
+			!persistenceId);
+
+	const layout = useMemo<StickToBottomLayout>(
+		() => ({ direction: direction ?? "bottom", startsAtBottom }),
+		[direction, startsAtBottom],
+	);
+
 	useIsomorphicLayoutEffect(() => {
-		if (!scrollRef.current) {
+		if (!scrollRef.current || scrollElement === "window") {
 			return;
 		}
 
-		if (getComputedStyle(scrollRef.current).overflow === "visible") {
+		const { defaultView } = scrollRef.current.ownerDocument;
+
+		if (
+			defaultView?.getComputedStyle(scrollRef.current).overflow === "visible"
+		) {
 			scrollRef.current.style.overflow = "auto";
+
+			/**
+			 * Attach the scroll element again now that it scrolls,
+			 * so that it's positioned at the bottom before the first paint.
+			 */
+			scrollRef(scrollRef.current);
 		}
 	}, []);
 
 	return (
 		<StickToBottomContext.Provider value={context}>
-			<div {...props}>
-				{typeof children === "function" ? children(context) : children}
-			</div>
+			<StickToBottomLayoutContext.Provider value={layout}>
+				<div {...props}>
+					{typeof children === "function" ? children(context) : children}
+				</div>
+			</StickToBottomLayoutContext.Provider>
 		</StickToBottomContext.Provider>
 	);
 }
 
+/**
+ * Scrolls the element before the script to the bottom as soon as it's parsed.
+ * Rendered right after the scroll element in server rendered markup, the page
+ * is painted already scrolled to the bottom instead of jumping once hydrated.
+ */
+export const STICK_TO_BOTTOM_SSR_SCRIPT: string = `(function (element) {
+	if (!element) return;
+	if (getComputedStyle(element).overflow === "visible") element.style.overflow = "auto";
+	element.scrollTop = element.scrollHeight;
+})(document.currentScript && document.currentScript.previousElementSibling);`;
+
 export namespace StickToBottom {
+	/**
+	 * Keeps the top of the latest message visible, see `latestItemTop`.
+	 */
+	export const latestItemTop: typeof latestItemTopTarget = latestItemTopTarget;
+
 	export interface ContentProps
 		extends Omit<React.HTMLAttributes<HTMLDivElement>, "children"> {
 		children: ((context: StickToBottomContext) => ReactNode) | ReactNode;
+
+		/**
+		 * Renders `STICK_TO_BOTTOM_SSR_SCRIPT` after the scroll element, so that
+		 * server rendered markup doesn't paint at the top before it's hydrated.
+		 * Pass an object with a `nonce` when using a Content Security Policy.
+		 *
+		 * It's only rendered when the content starts at the bottom, so not with
+		 * `direction="top"`, `initial={false}`, `scrollElement="window"`, or
+		 * when restoring a snapshot from `restore` or `persistenceId`.
+		 */
+		ssr?: boolean | { nonce?: string };
+
+		/**
+		 * Makes the content a `role="log"` live region, so that screen readers read
+		 * new content while at the bottom. Once the user scrolls away, the log is
+		 * silenced and a summary of the unread content is announced instead.
+		 */
+		live?: boolean | LiveOptions;
+	}
+
+	export interface LiveOptions {
+		/**
+		 * The minimum time in ms between announcements of unread content,
+		 * the latest summary is announced once it has passed.
+		 *
+		 * @default 3000
+		 */
+		throttle?: number;
+
+		/**
+		 * The summary of the unread content to announce.
+		 *
+		 * @default `${unread.count} new messages below`
+		 */
+		message?: (unread: StickToBottomUnread) => string;
 	}
 
-	export function Content({ children, ...props }: ContentProps): ReactNode {
+	export function Content({
+		children,
+		ssr,
+		live,
+		...props
+	}: ContentProps): ReactNode {
 		const context = useStickToBottomContext();
+		const { startsAtBottom } = useContext(StickToBottomLayoutContext);
+		const announcement = useUnreadAnnouncement(
+			live === true ? {} : live || undefined,
+			context,
+		);
+
+		return (
+			<>
+				<div
+					ref={context.scrollRef}
+					style={{
+						height: "100%",
+						width: "100%",
+						/**
+						 * Scrollable as soon as it's attached, so that a restored
+						 * snapshot can be scrolled to before the first paint.
+						 */
+						overflow: "auto",
+					}}
+					// The SSR script sets the overflow before hydrating
+					suppressHydrationWarning
+				>
+					<div
+						{...(live && {
+							role: "log",
+							"aria-live": context.escapedFromLock ? "off" : "polite",
+							"aria-relevant": "additions",
+						})}
+						{...props}
+						ref={context.contentRef}
+					>
+						{typeof children === "function" ? children(context) : children}
+					</div>
+				</div>
+				{ssr && startsAtBottom && (
+					<script
+						nonce={typeof ssr === "object" ? ssr.nonce : undefined}
+						// biome-ignore lint/security/noDangerouslySetInnerHtml: static script
+						dangerouslySetInnerHTML={{ __html: STICK_TO_BOTTOM_SSR_SCRIPT }}
+					/>
+				)}
+				{live && (
+					<div
+						// biome-ignore lint/a11y/useSemanticElements: <output> isn't announced by every screen reader
+						role="status"
+						style={VISUALLY_HIDDEN_STYLE}
+					>
+						{announcement}
+					</div>
+				)}
+			</>
+		);
+	}
+
+	export type ScrollButtonTransition =
+		| "entering"
+		| "entered"
+		| "exiting"
+		| "exited";
+
+	export interface ScrollButtonRenderProps {
+		/**
+		 * `entering` on the frame the button appears and `exiting` for `transitionDuration`
+		 * before it's removed, so that it can be transitioned in & out with CSS.
+		 * This is also set as the `data-state` attribute.
+		 */
+		transition: ScrollButtonTransition;
+		/**
+		 * How far from the bottom in pixels the viewport is.
+		 */
+		distance: number;
+		unread: StickToBottomUnread;
+	}
+
+	export interface ScrollButtonProps
+		extends Omit<React.ButtonHTMLAttributes<HTMLButtonElement>, "children"> {
+		children?: ((props: ScrollButtonRenderProps) => ReactNode) | ReactNode;
+
+		/**
+		 * The animation to scroll to the bottom with.
+		 *
+		 * @default the `StickToBottom`'s spring animation
+		 */
+		animation?: Animation;
+
+		/**
+		 * Renders the child element in place of the `<button>`, passing it the button's props.
+		 */
+		asChild?: boolean;
+
+		/**
+		 * How long in ms the button stays mounted in the `exiting` state once at the bottom.
+		 *
+		 * @default 0
+		 */
+		transitionDuration?: number;
+
+		/**
+		 * Keeps the button mounted in the `exited` state while at the bottom.
+		 */
+		forceMount?: boolean;
+	}
+
+	/**
+	 * A headless button that's only rendered while not at the bottom, and scrolls to the
+	 * bottom when activated. When it's removed while focused, focus moves to the scroll
+	 * element so that keyboard users can keep scrolling from where they are.
+	 */
+	export function ScrollButton({
+		children,
+		animation,
+		asChild,
+		transitionDuration = 0,
+		forceMount,
+		onClick,
+		onFocus,
+		onBlur,
+		...props
+	}: ScrollButtonProps): ReactNode {
+		const {
+			isAtBottom,
+			scrollToBottom,
+			scrollEventTarget,
+			contentRef,
+			subscribe,
+			state,
+			unread,
+		} = useStickToBottomContext();
+		const visible = !isAtBottom;
+		const focused = useRef(false);
+		const [distance, setDistance] = useState(0);
+		const [transition, setTransition] = useState<ScrollButtonTransition>(
+			visible ? "entering" : "exited",
+		);
+
+		useEffect(() => {
+			if (visible) {
+				setTransition("entering");
+
+				/**
+				 * Wait for the `entering` state to be painted before
+				 * transitioning, the first frame runs before it is.
+				 */
+				let frame = requestAnimationFrame(() => {
+					frame = requestAnimationFrame(() => setTransition("entered"));
+				});
+
+				return () => cancelAnimationFrame(frame);
+			}
+
+			if (!transitionDuration) {
+				setTransition("exited");
+				return;
+			}
+
+			setTransition((current) => (current === "exited" ? current : "exiting"));
+			const timeout = setTimeout(
+				() => setTransition("exited"),
+				transitionDuration,
+			);
+
+			return () => clearTimeout(timeout);
+		}, [visible, transitionDuration]);
+
+		useEffect(() => {
+			if (!visible) {
+				return;
+			}
+
+			const update = () => {
+				setDistance(Math.max(Math.round(state.scrollDifference), 0));
+			};
+
+			update();
+			scrollEventTarget?.addEventListener("scroll", update, { passive: true });
+			const unsubscribe = subscribe((event) => {
+				if (event.type === "resize") {
+					update();
+				}
+			});
+
+			return () => {
+				scrollEventTarget?.removeEventListener("scroll", update);
+				unsubscribe();
+			};
+		}, [visible, scrollEventTarget, state, subscribe]);
+
+		useEffect(() => {
+			/**
+			 * When scrolling the window, focus the content instead.
+			 */
+			const element = isWindow(scrollEventTarget)
+				? contentRef.current
+				: scrollEventTarget;
+
+			if (visible || !focused.current || !element) {
+				return;
+			}
+
+			focused.current = false;
+
+			if (!element.hasAttribute("tabindex")) {
+				element.tabIndex = -1;
+			}
+
+			element.focus({ preventScroll: true });
+		}, [visible, scrollEventTarget, contentRef]);
+
+		if (transition === "exited" && !forceMount) {
+			return null;
+		}
+
+		const hidden = transition === "exiting" || transition === "exited";
+		const content =
+			typeof children === "function"
+				? children({ transition, distance, unread })
+				: children;
+
+		const buttonProps = {
+			"aria-label": "Scroll to bottom",
+			...props,
+			"aria-hidden": hidden || undefined,
+			tabIndex: hidden ? -1 : props.tabIndex,
+			"data-state": transition,
+			onClick(event: React.MouseEvent<HTMLButtonElement>) {
+				onClick?.(event);
+
+				if (!event.defaultPrevented) {
+					scrollToBottom(animation === undefined ? undefined : { animation });
+				}
+			},
+			onFocus(event: React.FocusEvent<HTMLButtonElement>) {
+				focused.current = true;
+				onFocus?.(event);
+			},
+			onBlur(event: React.FocusEvent<HTMLButtonElement>) {
+				focused.current = false;
+				onBlur?.(event);
+			},
+		};
+
+		if (asChild && isValidElement<Record<string, unknown>>(content)) {
+			return cloneElement(content, mergeSlotProps(buttonProps, content.props));
+		}
+
+		return (
+			<button type="button" {...buttonProps}>
+				{content}
+			</button>
+		);
+	}
+
+	export interface DebugProps {
+		/**
+		 * Records a timeline of events while mounted, which can be
+		 * exported as JSON from the overlay.
+		 *
+		 * @default true
+		 */
+		record?: boolean;
+
+		/**
+		 * How many entries the recorder keeps.
+		 *
+		 * @default 1000
+		 */
+		limit?: number;
+	}
+
+	/**
+	 * Overlays the live state and the near bottom zone on top of the scroll element,
+	 * for diagnosing why the content stopped being followed. Only meant for development.
+	 */
+	export function Debug({ record = true, limit }: DebugProps): ReactNode {
+		const { scrollEventTarget, subscribe, state } = useStickToBottomContext();
+		const { direction } = useContext(StickToBottomLayoutContext);
+		const recorder = useRef<StickToBottomRecorder | null>(null);
+		const [snapshot, setSnapshot] = useState<{
+			rect: Pick<DOMRect, "top" | "left" | "width" | "height">;
+			state: StickToBottomDebugState;
+		}>();
+
+		useEffect(() => {
+			let frame: number;
+
+			/**
+			 * This re-renders every frame, so the scroll event target is picked
+			 * up as soon as the elements are attached.
+			 */
+			const update = () => {
+				setSnapshot({
+					rect: getViewportRect(scrollEventTarget),
+					state: getDebugState(state),
+				});
+
+				frame = requestAnimationFrame(update);
+			};
+
+			update();
+
+			return () => cancelAnimationFrame(frame);
+		}, [scrollEventTarget, state]);
+
+		useEffect(() => {
+			if (!record || !scrollEventTarget) {
+				return;
+			}
+
+			recorder.current = createStickToBottomRecorder(
+				{ subscribe, state, scrollEventTarget },
+				{ limit },
+			);
+
+			return () => {
+				recorder.current?.stop();
+				recorder.current = null;
+			};
+		}, [record, limit, scrollEventTarget, subscribe, state]);
+
+		const exportRecording = () => {
+			if (!recorder.current) {
+				return;
+			}
+
+			const url = URL.createObjectURL(
+				new Blob([recorder.current.export()], { type: "application/json" }),
+			);
+			const link = document.createElement("a");
+			link.href = url;
+			link.download = "stick-to-bottom-recording.json";
+			link.click();
+
+			/**
+			 * Revoking the URL right away can cancel the download in Firefox and Safari.
+			 */
+			setTimeout(() => URL.revokeObjectURL(url), REVOKE_RECORDING_URL_DELAY_MS);
+		};
+
+		if (!snapshot) {
+			return null;
+		}
+
+		const { rect, state: debugState } = snapshot;
+
+		/**
+		 * The zone spans `nearBottomOffset` from the edge being stuck to,
+		 * the state is near the bottom while the viewport's edge is inside of it.
+		 */
+		const zoneTop =
+			direction === "top"
+				? -debugState.scrollDifference
+				: rect.height +
+					debugState.scrollDifference -
+					debugState.nearBottomOffset;
 
 		return (
 			<div
-				ref={context.scrollRef}
 				style={{
-					height: "100%",
-					width: "100%",
+					position: "fixed",
+					top: rect.top,
+					left: rect.left,
+					width: rect.width,
+					height: rect.height,
+					overflow: "hidden",
+					pointerEvents: "none",
+					zIndex: 2147483647,
+					font: "11px/1.4 ui-monospace, monospace",
 				}}
 			>
-				<div {...props} ref={context.contentRef}>
-					{typeof children === "function" ? children(context) : children}
+				<div
+					style={{
+						position: "absolute",
+						left: 0,
+						right: 0,
+						top: zoneTop,
+						height: debugState.nearBottomOffset,
+						background: debugState.isNearBottom
+							? "rgba(34, 197, 94, 0.2)"
+							: "rgba(239, 68, 68, 0.2)",
+						[direction === "top" ? "borderBottom" : "borderTop"]:
+							"1px dashed currentColor",
+					}}
+				/>
+				<div
+					style={{
+						position: "absolute",
+						top: 4,
+						right: 4,
+						padding: 6,
+						borderRadius: 4,
+						background: "rgba(0, 0, 0, 0.75)",
+						color: "white",
+						whiteSpace: "pre",
+						pointerEvents: "auto",
+					}}
+				>
+					{Object.entries(debugState)
+						.map(([key, value]) => `${key}: ${formatDebugValue(value)}`)
+						.join("\n")}
+					{record && (
+						<div>
+							<button type="button" onClick={exportRecording}>
+								Export recording
+							</button>
+						</div>
+					)}
 				</div>
 			</div>
 		);
 	}
 }
 
+const DEFAULT_ANNOUNCEMENT_THROTTLE_MS = 3000;
+
+const REVOKE_RECORDING_URL_DELAY_MS = 10_000;
+
+const VISUALLY_HIDDEN_STYLE: React.CSSProperties = {
+	position: "absolute",
+	width: 1,
+	height: 1,
+	margin: -1,
+	padding: 0,
+	overflow: "hidden",
+	clip: "rect(0, 0, 0, 0)",
+	whiteSpace: "nowrap",
+	border: 0,
+};
+
+function getUnreadMessage({ count }: StickToBottomUnread) {
+	if (!count) {
+		return "New content below";
+	}
+
+	return `${count} new ${count === 1 ? "message" : "messages"} below`;
+}
+
+/**
+ * The summary of the unread content to announce while escaped, changing at most
+ * once every `throttle` ms so that streaming content isn't read out on every update.
+ */
+function useUnreadAnnouncement(
+	options: StickToBottom.LiveOptions | undefined,
+	{ escapedFromLock, unread }: StickToBottomContext,
+): string {
+	const [announcement, setAnnouncement] = useState("");
+	const lastAnnouncement = useRef(0);
+	const {
+		throttle = DEFAULT_ANNOUNCEMENT_THROTTLE_MS,
+		message = getUnreadMessage,
+	} = options ?? {};
+
+	const text =
+		options && escapedFromLock && (unread.count || unread.height)
+			? message(unread)
+			: "";
+
+	useEffect(() => {
+		if (!text) {
+			setAnnouncement("");
+			return;
+		}
+
+		const announce = () => {
+			lastAnnouncement.current = Date.now();
+			setAnnouncement(text);
+		};
+
+		const delay = lastAnnouncement.current + throttle - Date.now();
+
+		if (delay <= 0) {
+			announce();
+			return;
+		}
+
+		const timeout = setTimeout(announce, delay);
+
+		return () => clearTimeout(timeout);
+	}, [text, throttle]);
+
+	return announcement;
+}
+
+function isWindow(target: HTMLElement | Window | null): target is Window {
+	return !!target && "innerHeight" in target;
+}
+
+/**
+ * The rect of the scroll element, or of the whole viewport when scrolling the window.
+ */
+function getViewportRect(
+	target: HTMLElement | Window | null,
+): Pick<DOMRect, "top" | "left" | "width" | "height"> {
+	if (!target) {
+		return { top: 0, left: 0, width: 0, height: 0 };
+	}
+
+	if (isWindow(target)) {
+		return {
+			top: 0,
+			left: 0,
+			width: target.innerWidth,
+			height: target.innerHeight,
+		};
+	}
+
+	return target.getBoundingClientRect();
+}
+
+/**
+ * Merges the props of a component rendered `asChild` with the props of its child,
+ * the child's props win except for event handlers, which both get called.
+ */
+function mergeSlotProps(
+	slotProps: Record<string, any>,
+	childProps: Record<string, any>,
+): Record<string, any> {
+	const merged = { ...slotProps, ...childProps };
+
+	for (const key in slotProps) {
+		const slotProp = slotProps[key];
+		const childProp = childProps[key];
+
+		if (
+			/^on[A-Z]/.test(key) &&
+			typeof slotProp === "function" &&
+			typeof childProp === "function"
+		) {
+			merged[key] = (...args: unknown[]) => {
+				childProp(...args);
+				slotProp(...args);
+			};
+		} else if (key === "className" && slotProp && childProp) {
+			merged[key] = `${slotProp} ${childProp}`;
+		} else if (key === "style" && childProp) {
+			merged[key] = { ...slotProp, ...childProp };
+		}
+	}
+
+	return merged;
+}
+
+function formatDebugValue(value: unknown): string {
+	if (typeof value === "number") {
+		return String(Math.round(value * 100) / 100);
+	}
+
+	if (typeof value === "object" && value) {
+		return JSON.stringify(value);
+	}
+
+	return String(value);
+}
+
 /**
  * Use this hook inside a <StickToBottom> component to gain access to whether the component is at the bottom of the scrollable area.
  */
@@ -178,3 +933,36 @@ export function useStickToBottomContext(): StickToBottomContext {
 
 	return context;
 }
+
+/**
+ * Use this hook to take the content size from a virtualized list, either inside a <StickToBottom> component
+ * or with the instance returned from `useStickToBottom`. Call it in the component that renders the list,
+ * so that it can re-measure whenever the virtualizer re-renders.
+ */
+export function useStickToBottomVirtualizer(
+	virtualizer: StickToBottomVirtualizer | null,
+	instance?: Pick<StickToBottomInstance, "setVirtualizer" | "measure">,
+): void {
+	const context = useContext(StickToBottomContext);
+	const target = instance ?? context;
+
+	if (!target) {
+		throw new Error(
+			"useStickToBottomVirtualizer must be used within a StickToBottom component, or be passed an instance",
+		);
+	}
+
+	const { setVirtualizer, measure } = target;
+
+	useIsomorphicLayoutEffect(() => {
+		setVirtualizer(virtualizer);
+
+		return () => {
+			setVirtualizer(null);
+		};
+	}, [setVirtualizer, virtualizer]);
+
+	useIsomorphicLayoutEffect(() => {
+		measure();
+	});
+}
@@ -0,0 +1,685 @@
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it } from "vitest";
+import {
+	type CreateStickToBottomOptions,
+	type StickToBottomEvent,
+	createStickToBottom,
+} from "./createStickToBottom.js";
+import { createTestEnvironment } from "./testing.js";
+
+const cleanups: (() => void)[] = [];
+
+afterEach(() => {
+	for (const cleanup of cleanups.splice(0)) {
+		cleanup();
+	}
+});
+
+async function setup(
+	options: CreateStickToBottomOptions = {},
+	parent?: ParentNode & Node,
+) {
+	const env = createTestEnvironment();
+	const container = env.createScrollContainer({ height: 500, parent });
+	const controller = createStickToBottom({
+		resize: "instant",
+		initial: "instant",
+		...options,
+		environment: env.environment,
+		scrollElement: container.scrollElement,
+		contentElement: container.contentElement,
+	});
+
+	const events: StickToBottomEvent[] = [];
+	controller.subscribe((event) => events.push(event));
+
+	cleanups.push(() => {
+		controller.destroy();
+		container.remove();
+	});
+
+	container.setContentHeight(1000);
+	await env.frame(5);
+
+	return { env, container, controller, events };
+}
+
+describe("createStickToBottom", () => {
+	it("follows the content as it grows", async () => {
+		const { env, container, controller } = await setup();
+
+		expect(container.scrollElement.scrollTop).toBe(499);
+
+		container.setContentHeight(2000);
+		await env.frame(5);
+
+		expect(container.scrollElement.scrollTop).toBe(1499);
+		expect(controller.isAtBottom).toBe(true);
+	});
+
+	it("positions at the bottom as soon as the elements are attached", () => {
+		const env = createTestEnvironment();
+		const container = env.createScrollContainer({ contentHeight: 1000 });
+		const controller = createStickToBottom({
+			initial: "instant",
+			environment: env.environment,
+			scrollElement: container.scrollElement,
+			contentElement: container.contentElement,
+		});
+
+		cleanups.push(() => {
+			controller.destroy();
+			container.remove();
+		});
+
+		expect(container.scrollElement.scrollTop).toBe(499);
+	});
+
+	it("animates to the bottom with a spring", async () => {
+		const { env, container } = await setup({ resize: undefined });
+
+		container.setContentHeight(2000);
+		await env.frame(3);
+
+		const { scrollTop } = container.scrollElement;
+		expect(scrollTop).toBeGreaterThan(499);
+		expect(scrollTop).toBeLessThan(1499);
+
+		await env.frame(120);
+
+		expect(container.scrollElement.scrollTop).toBeCloseTo(1499, 0);
+	});
+
+	describe("maxLag", () => {
+		it("clamps how far the spring falls behind to the pixels", async () => {
+			const { env, container } = await setup({
+				resize: { mass: 10, maxLag: 100 },
+			});
+
+			container.setContentHeight(3000);
+			await env.frame(3);
+
+			expect(container.scrollElement.scrollTop).toBeGreaterThanOrEqual(2399);
+			expect(container.scrollElement.scrollTop).toBeLessThan(2499);
+		});
+
+		it("catches up within the time constant of a duration", async () => {
+			const { env, container } = await setup({
+				resize: { mass: 10, maxLag: "100ms" },
+			});
+
+			container.setContentHeight(3000);
+			await env.frame(31);
+
+			expect(container.scrollElement.scrollTop).toBeGreaterThan(2480);
+		});
+
+		it("keeps the spring's motion when within the bound", async () => {
+			const { env, container } = await setup({
+				resize: { maxLag: 2000 },
+			});
+
+			container.setContentHeight(2000);
+			await env.frame(3);
+
+			expect(container.scrollElement.scrollTop).toBeLessThan(1399);
+		});
+	});
+
+	describe("reachtop", () => {
+		it("isn't reported while animating to the bottom initially", async () => {
+			const { env, container, events } = await setup({ initial: undefined });
+
+			await env.frame(120);
+
+			expect(container.scrollElement.scrollTop).toBeCloseTo(499, 0);
+			expect(events).not.toContainEqual({ type: "reachtop" });
+
+			container.scrollTo(0);
+			await env.frame(2);
+
+			expect(events).toContainEqual({ type: "reachtop" });
+		});
+	});
+
+	describe("escaping", () => {
+		it("escapes when the user scrolls up", async () => {
+			const { env, container, controller, events } = await setup();
+
+			container.scrollTo(200);
+			await env.frame(2);
+
+			expect(controller.escapedFromLock).toBe(true);
+			expect(controller.isAtBottom).toBe(false);
+			expect(events).toContainEqual({ type: "escape", cause: "scroll" });
+
+			container.setContentHeight(2000);
+			await env.frame(5);
+
+			expect(container.scrollElement.scrollTop).toBe(200);
+		});
+
+		it("escapes as soon as the wheel scrolls up", async () => {
+			const { container, controller, events } = await setup();
+
+			container.wheel(-100);
+
+			expect(controller.escapedFromLock).toBe(true);
+			expect(events).toContainEqual({ type: "escape", cause: "wheel" });
+		});
+
+		it("doesn't escape when the wheel scrolls down", async () => {
+			const { env, container, controller } = await setup();
+
+			container.wheel(100);
+			await env.frame(2);
+
+			expect(controller.escapedFromLock).toBe(false);
+			expect(controller.isAtBottom).toBe(true);
+		});
+
+		it("escapes with the keyboard only when there's somewhere to scroll", async () => {
+			const { env, container, controller } = await setup();
+
+			const pressKey = (key: string) =>
+				container.scrollElement.dispatchEvent(
+					new KeyboardEvent("keydown", { key, bubbles: true }),
+				);
+
+			container.setContentHeight(300);
+			await env.frame(2);
+			pressKey("PageUp");
+
+			expect(controller.escapedFromLock).toBe(false);
+
+			container.setContentHeight(2000);
+			await env.frame(5);
+
+			expect(container.scrollElement.scrollTop).toBe(1499);
+
+			pressKey("PageUp");
+
+			expect(controller.escapedFromLock).toBe(true);
+		});
+
+		it("re-engages when scrolled back to the bottom", async () => {
+			const { env, container, controller, events } = await setup();
+
+			container.scrollTo(200);
+			await env.frame(2);
+			container.scrollTo(container.maxScrollTop);
+			await env.frame(2);
+
+			expect(controller.escapedFromLock).toBe(false);
+			expect(controller.isAtBottom).toBe(true);
+			expect(events).toContainEqual({ type: "reengage", cause: "scroll" });
+		});
+
+		it("clears the unread content when scrolled back to the bottom", async () => {
+			const { env, container, controller } = await setup();
+
+			container.scrollTo(200);
+			await env.frame(2);
+			container.setContentHeight(1300);
+			await env.frame(2);
+
+			expect(controller.unread.height).toBe(300);
+
+			container.scrollTo(container.maxScrollTop);
+			await env.frame(2);
+
+			expect(controller.isAtBottom).toBe(true);
+			expect(controller.unread).toEqual({ height: 0, count: 0 });
+		});
+
+		it("counts content added at the top as unread with `direction: top`", async () => {
+			const { env, container, controller } = await setup({ direction: "top" });
+
+			/**
+			 * jsdom doesn't lay anything out, so the items are
+			 * positioned by hand from where they start in the content.
+			 */
+			const createItem = (layout: { top: number; height: number }) => {
+				const item = document.createElement("div");
+				Object.defineProperty(item, "getBoundingClientRect", {
+					value: () => {
+						const top = layout.top - container.scrollElement.scrollTop;
+						return { top, bottom: top + layout.height };
+					},
+				});
+
+				return item;
+			};
+
+			const firstLayout = { top: 0, height: 1000 };
+			container.contentElement.append(createItem(firstLayout));
+			container.scrollTo(200);
+			await env.frame(2);
+
+			expect(controller.escapedFromLock).toBe(true);
+
+			firstLayout.top = 200;
+			container.contentElement.prepend(createItem({ top: 0, height: 200 }));
+			container.setContentHeight(1200);
+			await env.frame(2);
+
+			expect(container.scrollElement.scrollTop).toBe(400);
+			expect(controller.unread).toEqual({ height: 200, count: 1 });
+		});
+
+		it("pauses following while selecting, and escapes when scrolling", async () => {
+			const { env, container, controller, events } = await setup();
+
+			const selection = container.select();
+			container.setContentHeight(2000);
+			await env.frame(5);
+
+			expect(container.scrollElement.scrollTop).toBe(499);
+
+			container.scrollTo(450);
+			await env.frame(2);
+
+			expect(controller.escapedFromLock).toBe(true);
+			expect(events).toContainEqual({ type: "escape", cause: "selection" });
+
+			selection.release();
+		});
+
+		it("catches up once the selection is released", async () => {
+			const { env, container } = await setup();
+
+			const selection = container.select();
+			container.setContentHeight(2000);
+			await env.frame(5);
+			selection.release();
+			await env.frame(5);
+
+			expect(container.scrollElement.scrollTop).toBe(1499);
+		});
+	});
+
+	describe("selection", () => {
+		it("pauses following while selecting with the keyboard", async () => {
+			const { env, container } = await setup();
+
+			const selection = container.select("keyboard");
+			container.setContentHeight(2000);
+			await env.frame(5);
+
+			expect(container.scrollElement.scrollTop).toBe(499);
+
+			selection.release();
+			await env.frame(5);
+
+			expect(container.scrollElement.scrollTop).toBe(1499);
+		});
+
+		it("resumes once a touch selection stops changing", async () => {
+			const { env, container } = await setup();
+
+			container.select("touch");
+			container.setContentHeight(2000);
+			await env.frame(5);
+
+			expect(container.scrollElement.scrollTop).toBe(499);
+
+			await env.frame(30);
+
+			expect(container.scrollElement.scrollTop).toBe(1499);
+		});
+
+		it("escapes when selecting with `whileSelecting: escape`", async () => {
+			const { container, controller, events } = await setup({
+				whileSelecting: "escape",
+			});
+
+			container.select();
+
+			expect(controller.escapedFromLock).toBe(true);
+			expect(events).toContainEqual({ type: "escape", cause: "selection" });
+		});
+
+		it("keeps following when selecting with `whileSelecting: follow`", async () => {
+			const { env, container, controller } = await setup({
+				whileSelecting: "follow",
+			});
+
+			container.select();
+			container.setContentHeight(2000);
+			await env.frame(5);
+
+			expect(container.scrollElement.scrollTop).toBe(1499);
+			expect(controller.escapedFromLock).toBe(false);
+		});
+	});
+
+	describe("focus", () => {
+		it("pauses following while focus is above the bottom zone", async () => {
+			const { env, container, controller } = await setup();
+
+			const button = document.createElement("button");
+			container.contentElement.append(button);
+			button.focus();
+
+			container.setContentHeight(2000);
+			await env.frame(5);
+
+			expect(container.scrollElement.scrollTop).toBe(499);
+			expect(controller.escapedFromLock).toBe(false);
+
+			button.blur();
+			await env.frame(3);
+
+			expect(container.scrollElement.scrollTop).toBe(1499);
+		});
+
+		it("keeps following when the scroll element itself is focused", async () => {
+			const { env, container } = await setup();
+
+			container.scrollElement.tabIndex = 0;
+			container.scrollElement.focus();
+
+			container.setContentHeight(2000);
+			await env.frame(5);
+
+			expect(container.scrollElement.scrollTop).toBe(1499);
+		});
+
+		it("keeps following when focused with `whileFocused: follow`", async () => {
+			const { env, container } = await setup({ whileFocused: "follow" });
+
+			const button = document.createElement("button");
+			container.contentElement.append(button);
+			button.focus();
+
+			container.setContentHeight(2000);
+			await env.frame(5);
+
+			expect(container.scrollElement.scrollTop).toBe(1499);
+		});
+	});
+
+	describe("other realms", () => {
+		it("works inside of an iframe", async () => {
+			const iframe = document.createElement("iframe");
+			document.body.append(iframe);
+			cleanups.push(() => iframe.remove());
+
+			const { env, container, controller } = await setup(
+				{},
+				iframe.contentDocument!.body,
+			);
+
+			const selection = container.select();
+			container.setContentHeight(2000);
+			await env.frame(5);
+
+			expect(container.scrollElement.scrollTop).toBe(499);
+
+			selection.release();
+			container.wheel(-100);
+
+			expect(controller.escapedFromLock).toBe(true);
+		});
+
+		it("works inside of a shadow root", async () => {
+			const host = document.createElement("div");
+			document.body.append(host);
+			cleanups.push(() => host.remove());
+
+			const { env, container, controller } = await setup(
+				{},
+				host.attachShadow({ mode: "open" }),
+			);
+
+			container.setContentHeight(2000);
+			await env.frame(5);
+
+			expect(container.scrollElement.scrollTop).toBe(1499);
+
+			container.wheel(-100);
+
+			expect(controller.escapedFromLock).toBe(true);
+		});
+	});
+
+	describe("negative resizes", () => {
+		it("re-engages when shrinking the content brings the bottom into view", async () => {
+			const { env, container, controller } = await setup();
+
+			container.setContentHeight(2000);
+			await env.frame(5);
+			container.scrollTo(1200);
+			await env.frame(2);
+
+			expect(controller.escapedFromLock).toBe(true);
+
+			container.setContentHeight(1600);
+			await env.frame(2);
+
+			expect(controller.escapedFromLock).toBe(false);
+			expect(controller.isAtBottom).toBe(true);
+		});
+
+		it("stays escaped when the bottom is still far away", async () => {
+			const { env, container, controller } = await setup();
+
+			container.setContentHeight(2000);
+			await env.frame(5);
+			container.scrollTo(200);
+			await env.frame(2);
+
+			container.setContentHeight(1900);
+			await env.frame(5);
+
+			expect(controller.escapedFromLock).toBe(true);
+			expect(container.scrollElement.scrollTop).toBe(200);
+		});
+	});
+
+	describe("virtualizer", () => {
+		it("scrolls to the end of the total size rather than the estimated height", async () => {
+			let totalSize = 1000;
+			const { env, container, controller } = await setup({
+				virtualizer: { getTotalSize: () => totalSize },
+			});
+
+			expect(container.scrollElement.scrollTop).toBe(499);
+
+			totalSize = 1200;
+			container.setContentHeight(1500);
+			await env.frame(5);
+
+			expect(container.scrollElement.scrollTop).toBe(699);
+			expect(controller.isAtBottom).toBe(true);
+		});
+
+		it("doesn't treat setting a virtualizer as a resize", async () => {
+			const { env, container, controller } = await setup();
+
+			container.scrollTo(200);
+			await env.frame(2);
+
+			controller.setVirtualizer({ getTotalSize: () => 1100 });
+			controller.measure();
+
+			expect(controller.unread.height).toBe(0);
+			expect(container.scrollElement.scrollTop).toBe(200);
+		});
+	});
+
+	describe("observed elements", () => {
+		it("stays at the bottom when the viewport shrinks", async () => {
+			const { env, container, controller } = await setup();
+
+			container.setHeight(300);
+			await env.frame(3);
+
+			expect(container.scrollElement.scrollTop).toBe(699);
+			expect(controller.isAtBottom).toBe(true);
+		});
+
+		it("doesn't escape when the viewport grows", async () => {
+			const { env, container, controller } = await setup();
+
+			container.setHeight(700);
+			await env.frame(3);
+
+			expect(controller.escapedFromLock).toBe(false);
+			expect(controller.isAtBottom).toBe(true);
+
+			container.setContentHeight(2000);
+			await env.frame(3);
+
+			expect(container.scrollElement.scrollTop).toBe(1299);
+		});
+
+		it("follows elements besides the content when they're observed", async () => {
+			const { env, container, controller } = await setup();
+
+			const indicator = container.appendElement();
+			controller.observe(indicator.element);
+			await env.frame(2);
+
+			indicator.setHeight(100);
+			await env.frame(3);
+
+			expect(container.scrollElement.scrollTop).toBe(599);
+		});
+	});
+
+	describe("hold", () => {
+		it("defers following until released, without escaping", async () => {
+			const { env, container, controller } = await setup();
+
+			const release = controller.hold("menu");
+			container.setContentHeight(2000);
+			await env.frame(5);
+
+			expect(container.scrollElement.scrollTop).toBe(499);
+			expect(controller.escapedFromLock).toBe(false);
+
+			release();
+			await env.frame(3);
+
+			expect(container.scrollElement.scrollTop).toBe(1499);
+		});
+
+		it("still scrolls to the bottom when asked to while held", async () => {
+			const { env, container, controller } = await setup();
+
+			controller.hold("menu");
+			container.scrollTo(100);
+			await env.frame(2);
+
+			const promise = controller.scrollToBottom("instant");
+			await env.frame(3);
+
+			expect(container.scrollElement.scrollTop).toBe(499);
+			await expect(promise).resolves.toBe(true);
+		});
+
+		it("doesn't catch up when the user escaped while held", async () => {
+			const { env, container, controller } = await setup();
+
+			const release = controller.hold("menu");
+			container.scrollTo(200);
+			await env.frame(2);
+			container.setContentHeight(2000);
+			await env.frame(3);
+
+			release();
+			await env.frame(3);
+
+			expect(container.scrollElement.scrollTop).toBe(200);
+		});
+	});
+
+	describe("scrollToBottom", () => {
+		it("waits before scrolling with `wait`", async () => {
+			const { env, container, controller } = await setup();
+
+			container.scrollTo(200);
+			await env.frame(2);
+
+			const promise = controller.scrollToBottom({
+				animation: "instant",
+				wait: 100,
+			});
+
+			await env.frame(3);
+			expect(container.scrollElement.scrollTop).toBe(200);
+
+			await env.frame(5);
+			expect(container.scrollElement.scrollTop).toBe(499);
+			await expect(promise).resolves.toBe(true);
+		});
+
+		it("keeps following until the `duration` has passed", async () => {
+			const { env, controller } = await setup();
+
+			let resolved = false;
+			Promise.resolve(
+				controller.scrollToBottom({ animation: "instant", duration: 200 }),
+			).then(() => {
+				resolved = true;
+			});
+
+			await env.frame(5);
+			expect(resolved).toBe(false);
+
+			await env.frame(10);
+			expect(resolved).toBe(true);
+		});
+
+		it("arrives once an eased animation's duration has passed", async () => {
+			const { env, container, controller } = await setup();
+
+			container.scrollTo(0);
+			await env.frame(2);
+
+			const promise = controller.scrollToBottom({
+				animation: { duration: 100, easing: "linear" },
+			});
+
+			await env.frame(4);
+			const { scrollTop } = container.scrollElement;
+			expect(scrollTop).toBeGreaterThan(0);
+			expect(scrollTop).toBeLessThan(499);
+
+			await env.frame(5);
+			expect(container.scrollElement.scrollTop).toBe(499);
+			await expect(promise).resolves.toBe(true);
+		});
+
+		it("scrolls instantly with a duration of 0", async () => {
+			const { env, container, controller } = await setup();
+
+			container.scrollTo(0);
+			await env.frame(2);
+
+			const promise = controller.scrollToBottom({
+				animation: { duration: 0 },
+			});
+			await env.frame(2);
+
+			expect(container.scrollElement.scrollTop).toBe(499);
+			await expect(promise).resolves.toBe(true);
+		});
+
+		it("scrolls instantly when reduced motion is preferred", async () => {
+			const { env, container, controller } = await setup({
+				reducedMotion: "always",
+			});
+
+			container.scrollTo(0);
+			await env.frame(2);
+
+			controller.scrollToBottom({ animation: "smooth" });
+			await env.frame(2);
+
+			expect(container.scrollElement.scrollTop).toBe(499);
+		});
+	});
+});
@@ -0,0 +1,2671 @@
+/*!---------------------------------------------------------------------------------------------
+ *  Copyright (c) StackBlitz. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+export interface StickToBottomState {
+	scrollTop: number;
+	lastScrollTop?: number;
+	ignoreScrollToTop?: number;
+	targetScrollTop: number;
+	calculatedTargetScrollTop: number;
+	scrollDifference: number;
+	resizeDifference: number;
+
+	animation?: {
+		behavior: ScrollAnimationBehavior;
+		/**
+		 * Whether this is scrolling to the bottom, or to a position from `scrollTo`.
+		 */
+		kind: "bottom" | "position";
+		ignoreEscapes: boolean;
+		promise: Promise<boolean>;
+	};
+	lastTick?: number;
+	velocity: number;
+	accumulated: number;
+
+	/**
+	 * The user gesture that is currently in progress, scroll animations
+	 * are suspended until it finishes.
+	 */
+	gesture?: "touch" | "scrollbar";
+
+	escapedFromLock: boolean;
+	isAtBottom: boolean;
+	/**
+	 * How far from the bottom in pixels `isNearBottom` stays true,
+	 * including the `nearBottomHysteresis` while near the bottom.
+	 */
+	nearBottomOffset: number;
+	isNearBottom: boolean;
+	isInReengageZone: boolean;
+
+	resizeObserver?: ResizeObserver;
+	mutationObserver?: MutationObserver;
+}
+
+export interface StickToBottomUnread {
+	/**
+	 * How many pixels of content have been added below the fold since the user escaped.
+	 */
+	height: number;
+
+	/**
+	 * How many direct children have been added to the content element since the user escaped.
+	 */
+	count: number;
+}
+
+const DEFAULT_SPRING_ANIMATION = {
+	/**
+	 * A value from 0 to 1, on how much to damp the animation.
+	 * 0 means no damping, 1 means full damping.
+	 *
+	 * @default 0.7
+	 */
+	damping: 0.7,
+
+	/**
+	 * The stiffness of how fast/slow the animation gets up to speed.
+	 *
+	 * @default 0.05
+	 */
+	stiffness: 0.05,
+
+	/**
+	 * The inertial mass associated with the animation.
+	 * Higher numbers make the animation slower.
+	 *
+	 * @default 1.25
+	 */
+	mass: 1.25,
+};
+
+export interface SpringAnimation
+	extends Partial<typeof DEFAULT_SPRING_ANIMATION> {
+	/**
+	 * Bounds how far the spring can fall behind the bottom when content is added
+	 * faster than it follows, such as a fast stream with a high `mass`:
+	 * - a number of pixels, which the distance to the bottom is clamped to.
+	 * - a duration like `"300ms"`, the spring then always closes the distance at
+	 *   least as fast as an exponential ease-out with that time constant, which
+	 *   keeps it about that far behind the content in time.
+	 *
+	 * Content added slowly stays within the bound, so it keeps the spring's motion.
+	 */
+	maxLag?: SpringMaxLag;
+}
+
+export type SpringMaxLag = number | `${number}ms`;
+
+/**
+ * Maps the progress of an animation from 0 to 1, to how far along the scroll should be.
+ */
+export type EasingFunction = (progress: number) => number;
+
+export type Easing =
+	| "linear"
+	| "ease-in"
+	| "ease-out"
+	| "ease-in-out"
+	| EasingFunction;
+
+/**
+ * A fixed-duration animation, which takes the same amount of time
+ * regardless of the distance. Useful for discrete actions like
+ * jumping to the bottom, whereas springs work best for streaming content.
+ */
+export interface EasingAnimation {
+	/**
+	 * The duration of the animation in ms, `0` scrolls instantly.
+	 */
+	duration: number;
+
+	/**
+	 * @default "ease-out"
+	 */
+	easing?: Easing;
+}
+
+export type Animation = ScrollBehavior | SpringAnimation | EasingAnimation;
+
+/**
+ * The resolved animation that a scroll is performed with.
+ */
+export type ScrollAnimationBehavior =
+	| "instant"
+	| Readonly<
+			Required<typeof DEFAULT_SPRING_ANIMATION> &
+				Pick<SpringAnimation, "maxLag">
+	  >
+	| Readonly<{ duration: number; easing: EasingFunction }>;
+
+export interface ScrollElements {
+	scrollElement: HTMLElement;
+	contentElement: HTMLElement;
+}
+
+export type GetTargetScrollTop = (
+	targetScrollTop: number,
+	context: ScrollElements,
+) => number;
+
+export type StickToBottomDirection = "bottom" | "top";
+
+/**
+ * A distance from the bottom, either in pixels, as a percentage
+ * of the viewport height (e.g. `"25%"`), or calculated from the elements.
+ */
+export type BottomOffset =
+	| number
+	| `${number}%`
+	| ((context: ScrollElements) => number);
+
+/**
+ * A virtualized list, whose total size includes the estimated sizes
+ * of rows that haven't been rendered or measured yet.
+ *
+ * @see `tanStackVirtualizer` and `reactWindowVirtualizer` for adapters
+ */
+export interface StickToBottomVirtualizer {
+	getTotalSize(): number;
+}
+
+export interface StickToBottomKeyMap {
+	/**
+	 * Keys that immediately escape from the lock, such as `"PageUp"` or `"Shift+Space"`.
+	 * Modifiers are written as `Ctrl`, `Shift`, `Alt` or `Meta` joined with a `+`.
+	 */
+	escape?: string[];
+
+	/**
+	 * Keys that scroll back to the bottom and re-engage the lock.
+	 */
+	reengage?: string[];
+}
+
+/**
+ * What caused the lock state to change, or an animation to be cancelled.
+ */
+export type StickToBottomEventCause =
+	| "scroll"
+	| "wheel"
+	| "keyboard"
+	| "touch"
+	| "scrollbar"
+	| "selection"
+	| "resize"
+	| "programmatic";
+
+export interface StickToBottomLockEvent {
+	/**
+	 * - `escape` - the user left the bottom, and it's no longer being stuck to.
+	 * - `reengage` - the bottom is being stuck to again.
+	 * - `change` - any of `isAtBottom`, `escapedFromLock` or `isNearBottom` changed.
+	 */
+	type: "escape" | "reengage" | "change";
+	cause: StickToBottomEventCause;
+}
+
+export interface StickToBottomNearBottomEvent {
+	type: "nearbottomchange";
+	isNearBottom: boolean;
+	cause: StickToBottomEventCause;
+}
+
+export interface StickToBottomAnimationEvent {
+	type: "animationstart" | "animationcomplete";
+	animation: ScrollAnimationBehavior;
+}
+
+export interface StickToBottomAnimationCancelEvent {
+	type: "animationcancel";
+	animation: ScrollAnimationBehavior;
+	cause: StickToBottomEventCause;
+}
+
+/**
+ * A serializable snapshot of the scroll position, which can be
+ * passed to `restore` to return to it after the content remounts.
+ */
+export interface StickToBottomSnapshot {
+	isAtBottom: boolean;
+	escapedFromLock: boolean;
+
+	/**
+	 * The first child of the content element that is visible at the top
+	 * of the viewport, only included when the user isn't at the bottom.
+	 */
+	anchor?: {
+		/**
+		 * The `id` or `data-key` attribute of the child, if it has one.
+		 */
+		key?: string;
+		index: number;
+		/**
+		 * The distance in pixels from the top of the viewport to the top of the child.
+		 */
+		offset: number;
+	};
+}
+
+export interface StickToBottomReachTopEvent {
+	type: "reachtop";
+}
+
+export interface StickToBottomUnreadEvent {
+	type: "unreadchange";
+	unread: StickToBottomUnread;
+}
+
+export interface StickToBottomResizeEvent {
+	type: "resize";
+	/**
+	 * Whether the content (and any observed elements) or the viewport resized.
+	 */
+	target: "content" | "viewport";
+	height: number;
+	difference: number;
+}
+
+export type StickToBottomEvent =
+	| StickToBottomReachTopEvent
+	| StickToBottomUnreadEvent
+	| StickToBottomResizeEvent
+	| StickToBottomLockEvent
+	| StickToBottomNearBottomEvent
+	| StickToBottomAnimationEvent
+	| StickToBottomAnimationCancelEvent;
+
+export type StickToBottomEventListener = (event: StickToBottomEvent) => void;
+
+export interface StickToBottomEventCallbacks {
+	onEscape?: (event: StickToBottomLockEvent) => void;
+	onReengage?: (event: StickToBottomLockEvent) => void;
+	onNearBottomChange?: (event: StickToBottomNearBottomEvent) => void;
+	onScrollAnimationStart?: (event: StickToBottomAnimationEvent) => void;
+	onScrollAnimationComplete?: (event: StickToBottomAnimationEvent) => void;
+	onScrollAnimationCancel?: (event: StickToBottomAnimationCancelEvent) => void;
+	onUnreadChange?: (event: StickToBottomUnreadEvent) => void;
+	/**
+	 * Called when the user scrolls within `reachTopOffset` of the top,
+	 * such as to load older history. Content added above the viewport
+	 * keeps the visible content in place, even in browsers without scroll anchoring.
+	 */
+	onReachTop?: (event: StickToBottomReachTopEvent) => void;
+}
+
+export interface StickToBottomOptions
+	extends SpringAnimation,
+		StickToBottomEventCallbacks {
+	resize?: Animation;
+	initial?: Animation | boolean;
+	targetScrollTop?: GetTargetScrollTop;
+
+	/**
+	 * Which edge of the scroll element to stick to. With `"top"`, the newest
+	 * content is expected to be added at the top, and scrolling down escapes
+	 * the lock instead of scrolling up. `scrollToBottom` then scrolls to the top.
+	 *
+	 * @default "bottom"
+	 */
+	direction?: StickToBottomDirection;
+
+	/**
+	 * Customizes which keys escape from & re-engage the lock,
+	 * any keys that aren't passed use the defaults. Pass `false` to
+	 * disable keyboard handling.
+	 */
+	keyMap?: StickToBottomKeyMap | false;
+
+	/**
+	 * How close to the bottom the user has to be for `isNearBottom` to be true,
+	 * which is what decides whether to show a jump to bottom button.
+	 *
+	 * @default 70
+	 */
+	nearBottomOffset?: BottomOffset;
+
+	/**
+	 * How close to the bottom the user has to scroll back to for the lock
+	 * to re-engage.
+	 *
+	 * @default nearBottomOffset
+	 */
+	reengageOffset?: BottomOffset;
+
+	/**
+	 * Once near the bottom, how much further away the user has to scroll
+	 * before `isNearBottom` becomes false again. This prevents flickering
+	 * when the scroll position sits right at the edge of the zone.
+	 *
+	 * @default 0
+	 */
+	nearBottomHysteresis?: BottomOffset;
+
+	/**
+	 * A snapshot from `getSnapshot` to restore once the scroll and content
+	 * elements are attached, instead of scrolling to the bottom initially.
+	 */
+	restore?: StickToBottomSnapshot;
+
+	/**
+	 * How close to the top the user has to scroll for `onReachTop` to be called,
+	 * in the same units as `nearBottomOffset`.
+	 *
+	 * @default 70
+	 */
+	reachTopOffset?: BottomOffset;
+
+	/**
+	 * Whether animations are replaced with instant scrolls. With `"auto"`,
+	 * this follows the user's `prefers-reduced-motion` setting as it changes.
+	 *
+	 * @default "auto"
+	 */
+	reducedMotion?: StickToBottomReducedMotion;
+
+	/**
+	 * Replaces the browser's timing and observer APIs, so that the animations
+	 * and escape detection can be stepped deterministically in tests.
+	 * Only read when the controller is created.
+	 *
+	 * @see `use-stick-to-bottom/testing`
+	 */
+	environment?: Partial<StickToBottomEnvironment>;
+
+	/**
+	 * What to do while the user is selecting text inside the scroll element:
+	 * - `pause` - stop following the content until the selection is finished,
+	 *   scrolling while selecting escapes from the lock.
+	 * - `escape` - escape from the lock as soon as a selection is made.
+	 * - `follow` - keep following the content.
+	 *
+	 * @default "pause"
+	 */
+	whileSelecting?: StickToBottomSelectionBehavior;
+
+	/**
+	 * What to do while keyboard focus is inside an element above the near bottom
+	 * zone, which following the content would move out of view:
+	 * - `pause` - stop following the content until focus leaves it, like `hold`.
+	 * - `follow` - keep following the content.
+	 *
+	 * Focus from a pointer (which doesn't match `:focus-visible`) is ignored.
+	 *
+	 * @default "pause"
+	 */
+	whileFocused?: StickToBottomFocusBehavior;
+}
+
+export type StickToBottomSelectionBehavior = "pause" | "escape" | "follow";
+
+export type StickToBottomFocusBehavior = "pause" | "follow";
+
+/**
+ * The browser APIs used for scheduling and measuring, see `environment`.
+ */
+export interface StickToBottomEnvironment {
+	requestAnimationFrame(callback: (time: number) => void): unknown;
+	setTimeout(callback: () => void, delay: number): unknown;
+	/**
+	 * Replaces `performance.now()`, which animations are stepped with.
+	 */
+	now(): number;
+	/**
+	 * Replaces `Date.now()`, which `wait` and `duration` are measured with.
+	 */
+	dateNow(): number;
+	ResizeObserver: typeof ResizeObserver;
+}
+
+export type StickToBottomReducedMotion = "auto" | "always" | "never";
+
+export type ScrollToBottomOptions =
+	| ScrollBehavior
+	| {
+			animation?: Animation;
+
+			/**
+			 * Whether to wait for any existing scrolls to finish before
+			 * performing this one. Or if a millisecond is passed,
+			 * it will wait for that duration before performing the scroll.
+			 *
+			 * @default false
+			 */
+			wait?: boolean | number;
+
+			/**
+			 * Whether to prevent the user from escaping the scroll,
+			 * by scrolling up with their mouse.
+			 */
+			ignoreEscapes?: boolean;
+
+			/**
+			 * Only scroll to the bottom if we're already at the bottom.
+			 *
+			 * @default false
+			 */
+			preserveScrollPosition?: boolean;
+
+			/**
+			 * The extra duration in ms that this scroll event should persist for.
+			 * (in addition to the time that it takes to get to the bottom)
+			 *
+			 * Not to be confused with the duration of the animation -
+			 * for that you should adjust the animation option.
+			 *
+			 * @default 0
+			 */
+			duration?: number | Promise<void>;
+	  };
+
+export type ScrollToBottom = (
+	scrollOptions?: ScrollToBottomOptions,
+) => Promise<boolean> | boolean;
+export type StopScroll = () => void;
+
+export interface ScrollToPositionOptions {
+	animation?: Animation;
+
+	/**
+	 * Whether to re-engage the lock if the position is within the
+	 * `reengageOffset` of the bottom once the scroll finishes.
+	 *
+	 * @default false
+	 */
+	reengage?: boolean;
+}
+
+export interface ScrollToElementOptions extends ScrollToPositionOptions {
+	/**
+	 * Where to align the element within the viewport, `nearest` doesn't
+	 * scroll at all when the element is already fully visible.
+	 *
+	 * @default "start"
+	 */
+	align?: "start" | "center" | "end" | "nearest";
+
+	/**
+	 * Extra space in pixels to leave between the element and the aligned edge of the viewport.
+	 *
+	 * @default 0
+	 */
+	offset?: number;
+}
+
+/**
+ * Scrolls to a `scrollTop`, escaping from the lock. Resolves to `true` once
+ * the position is reached, or `false` if the scroll was cancelled.
+ */
+export type ScrollTo = (
+	scrollTop: number,
+	scrollOptions?: ScrollToPositionOptions,
+) => Promise<boolean>;
+
+/**
+ * Scrolls an element within the content into view, escaping from the lock.
+ * Resolves to `true` once the element is reached, or `false` if the scroll was cancelled.
+ */
+export type ScrollToElement = (
+	element: Element,
+	scrollOptions?: ScrollToElementOptions,
+) => Promise<boolean>;
+
+/**
+ * The element that scrolls, or `"window"` to use the document's scrolling
+ * element along with the window's scroll events and viewport height.
+ */
+export type ScrollElement = HTMLElement | "window";
+
+export interface CreateStickToBottomOptions extends StickToBottomOptions {
+	scrollElement?: ScrollElement | null;
+	contentElement?: HTMLElement | null;
+	virtualizer?: StickToBottomVirtualizer | null;
+}
+
+export interface StickToBottomController {
+	/**
+	 * Scrolls to the bottom of the scroll element, see `ScrollToBottomOptions`.
+	 */
+	scrollToBottom: ScrollToBottom;
+	/**
+	 * Escapes from the lock and cancels any running scroll animation.
+	 */
+	stopScroll: StopScroll;
+	/**
+	 * Scrolls to a position with the same animations as `scrollToBottom`.
+	 */
+	scrollTo: ScrollTo;
+	/**
+	 * Scrolls an element into view with the same animations as `scrollToBottom`.
+	 */
+	scrollToElement: ScrollToElement;
+	/**
+	 * Registers a listener that is called with every `StickToBottomEvent`,
+	 * such as the user escaping or an animation completing.
+	 * Returns a function that removes the listener.
+	 */
+	subscribe(listener: StickToBottomEventListener): () => void;
+	/**
+	 * Detaches all event listeners and observers, cancels any running
+	 * scroll animation and removes all subscribers.
+	 */
+	destroy(): void;
+
+	/**
+	 * Attaches the controller to a new scroll element, or detaches it when `null`.
+	 */
+	setScrollElement(scrollElement: ScrollElement | null): void;
+	/**
+	 * Observes a new content element, or stops observing when `null`.
+	 */
+	setContentElement(contentElement: HTMLElement | null): void;
+	/**
+	 * When the content is virtualized, its size is taken from the virtualizer
+	 * instead of the content element. Call `measure` whenever the virtualizer's
+	 * total size changes, such as after rows have been measured.
+	 */
+	setVirtualizer(virtualizer: StickToBottomVirtualizer | null): void;
+	/**
+	 * Replaces the options used by subsequent scrolls and resizes.
+	 */
+	setOptions(options: StickToBottomOptions): void;
+	/**
+	 * Captures the lock state and the element at the top of the viewport.
+	 */
+	getSnapshot(): StickToBottomSnapshot;
+	/**
+	 * Restores a snapshot from `getSnapshot`, scrolling the anchor
+	 * element back to the same offset within the viewport.
+	 */
+	restore(snapshot: StickToBottomSnapshot): void;
+	/**
+	 * Handles a change in the virtualizer's total size, resizes of the
+	 * content element itself are detected automatically.
+	 */
+	measure(): void;
+	/**
+	 * Observes the size of another element inside the scroll element besides
+	 * the content, such as a typing indicator or a footer. Returns a function
+	 * that stops observing it.
+	 */
+	observe(element: HTMLElement): () => void;
+	/**
+	 * Suspends following the content, such as while a context menu or an
+	 * inline editor is open, without escaping from the lock. Returns a
+	 * function that releases the hold, once every hold is released this
+	 * catches up to the bottom if it's still at the bottom.
+	 */
+	hold(reason: string): () => void;
+
+	readonly scrollElement: ScrollElement | null;
+	/**
+	 * What scroll events are dispatched on, which is the element's own
+	 * window when scrolling the window.
+	 */
+	readonly scrollEventTarget: HTMLElement | Window | null;
+	readonly contentElement: HTMLElement | null;
+	readonly isAtBottom: boolean;
+	readonly isNearBottom: boolean;
+	readonly escapedFromLock: boolean;
+	readonly unread: StickToBottomUnread;
+	readonly state: StickToBottomState;
+}
+
+const DEFAULT_KEY_MAPS: Record<
+	StickToBottomDirection,
+	Required<StickToBottomKeyMap>
+> = {
+	bottom: {
+		escape: [
+			"ArrowUp",
+			"PageUp",
+			"Home",
+			"Ctrl+Home",
+			"Meta+ArrowUp",
+			"Shift+Space",
+		],
+		reengage: ["End", "Ctrl+End", "Meta+ArrowDown"],
+	},
+	top: {
+		escape: [
+			"ArrowDown",
+			"PageDown",
+			"End",
+			"Ctrl+End",
+			"Meta+ArrowDown",
+			"Space",
+		],
+		reengage: ["Home", "Ctrl+Home", "Meta+ArrowUp"],
+	},
+};
+
+const EVENT_CALLBACKS: Record<
+	StickToBottomEvent["type"],
+	keyof StickToBottomEventCallbacks | undefined
+> = {
+	escape: "onEscape",
+	reengage: "onReengage",
+	change: undefined,
+	nearbottomchange: "onNearBottomChange",
+	animationstart: "onScrollAnimationStart",
+	animationcomplete: "onScrollAnimationComplete",
+	animationcancel: "onScrollAnimationCancel",
+	unreadchange: "onUnreadChange",
+	reachtop: "onReachTop",
+	resize: undefined,
+};
+
+const DEFAULT_NEAR_BOTTOM_OFFSET_PX = 70;
+const DEFAULT_REACH_TOP_OFFSET_PX = 70;
+const SIXTY_FPS_INTERVAL_MS = 1000 / 60;
+const RETAIN_ANIMATION_DURATION_MS = 350;
+
+/**
+ * Touch devices extend the selection with handles, which don't dispatch any
+ * events on the page besides `selectionchange`, so a selection that changed
+ * this recently is considered to still be in progress.
+ */
+const SELECTION_IDLE_MS = 500;
+
+/**
+ * Creates a framework-agnostic stick to bottom controller, this holds all of the
+ * animation, escape detection and resize logic used by `useStickToBottom`.
+ */
+export function createStickToBottom({
+	scrollElement: initialScrollElement,
+	contentElement: initialContentElement,
+	virtualizer: initialVirtualizer,
+	...initialOptions
+}: CreateStickToBottomOptions = {}): StickToBottomController {
+	let options: StickToBottomOptions = initialOptions;
+	let scrollTarget: ScrollElement | null = null;
+	let scrollElement: HTMLElement | null = null;
+	let eventTarget: HTMLElement | Window | null = null;
+	let contentElement: HTMLElement | null = null;
+	let virtualizer = initialVirtualizer ?? null;
+	let isNearBottom = false;
+	let destroyed = false;
+	let escapeCause: StickToBottomEventCause = "programmatic";
+	let unread: StickToBottomUnread = { height: 0, count: 0 };
+
+	/**
+	 * The active holds, an object per hold so that reasons can repeat.
+	 */
+	const holds = new Set<{ reason: string }>();
+
+	/**
+	 * The window the elements are rendered into, which can be an iframe
+	 * or a popout window rather than the global one.
+	 */
+	const getWindow = () =>
+		(scrollElement ?? contentElement)?.ownerDocument.defaultView ??
+		globalThis.window;
+
+	/**
+	 * Frames, timeouts and observers come from the elements' window, as the
+	 * global window's can be throttled while only a popout is visible.
+	 */
+	const environment: StickToBottomEnvironment = {
+		requestAnimationFrame: (callback) =>
+			getWindow().requestAnimationFrame(callback),
+		setTimeout: (callback, delay) => getWindow().setTimeout(callback, delay),
+		now: () => performance.now(),
+		dateNow: () => Date.now(),
+		get ResizeObserver() {
+			return getWindow().ResizeObserver;
+		},
+		...initialOptions.environment,
+	};
+
+	const listeners = new Set<StickToBottomEventListener>();
+
+	const emit = (event: StickToBottomEvent) => {
+		const callback = EVENT_CALLBACKS[event.type];
+
+		if (callback) {
+			options[callback]?.(event as never);
+		}
+
+		for (const listener of listeners) {
+			listener(event);
+		}
+	};
+
+	/**
+	 * `1` when sticking to the bottom and `-1` when sticking to the top,
+	 * used to flip comparisons so they're relative to the edge we stick to.
+	 */
+	const getDirection = () => (options.direction === "top" ? -1 : 1);
+
+	/**
+	 * The window's viewport height can't be read from the scrolling element's
+	 * `clientHeight` in quirks mode, so always use `innerHeight` for it.
+	 */
+	const getClientHeight = (element: HTMLElement) =>
+		scrollTarget === "window" ? getWindow().innerHeight : element.clientHeight;
+
+	const getViewportTop = (element: HTMLElement) =>
+		scrollTarget === "window" ? 0 : element.getBoundingClientRect().top;
+
+	/**
+	 * Finds the first child of the content element that is visible at the top
+	 * of the viewport. Children are laid out in order, so a binary search
+	 * keeps this fast even with thousands of messages.
+	 */
+	const getFirstVisibleChild = () => {
+		if (!scrollElement || !contentElement) {
+			return;
+		}
+
+		const viewportTop = getViewportTop(scrollElement);
+		const { children } = contentElement;
+		let low = 0;
+		let high = children.length - 1;
+		let index = -1;
+
+		while (low <= high) {
+			const middle = (low + high) >> 1;
+
+			if (children[middle].getBoundingClientRect().bottom > viewportTop) {
+				index = middle;
+				high = middle - 1;
+			} else {
+				low = middle + 1;
+			}
+		}
+
+		if (index === -1) {
+			return;
+		}
+
+		const element = children[index] as HTMLElement;
+
+		return {
+			element,
+			index,
+			offset: element.getBoundingClientRect().top - viewportTop,
+		};
+	};
+
+	const resolveOffset = (offset: BottomOffset) => {
+		if (typeof offset === "number") {
+			return offset;
+		}
+
+		if (!scrollElement || !contentElement) {
+			return 0;
+		}
+
+		if (typeof offset === "function") {
+			return offset({ scrollElement, contentElement });
+		}
+
+		return (Number.parseFloat(offset) / 100) * getClientHeight(scrollElement);
+	};
+
+	let scrollAnchor:
+		| { element: HTMLElement; offset: number; scrollTop: number }
+		| undefined;
+	let isNearTop = false;
+
+	/**
+	 * The content starts out scrolled to the top, so it's not
+	 * reported as near the top until the initial scroll has settled.
+	 */
+	let settlingInitialScroll = false;
+
+	/**
+	 * The offset of an element from the top of the content, which unlike
+	 * its offset in the viewport doesn't change as we scroll.
+	 */
+	const getContentOffset = (element: HTMLElement) =>
+		element.getBoundingClientRect().top -
+		(contentElement?.getBoundingClientRect().top ?? 0);
+
+	const updateScrollAnchor = () => {
+		const element = getFirstVisibleChild()?.element;
+
+		scrollAnchor = element && {
+			element,
+			offset: getContentOffset(element),
+			scrollTop: state.scrollTop,
+		};
+	};
+
+	/**
+	 * Browsers without scroll anchoring (Safari) keep the same `scrollTop` when
+	 * content is added above the viewport, which pushes the visible content down.
+	 * Returns how far the anchor moved, after scrolling to compensate for it.
+	 */
+	const preserveScrollAnchor = () => {
+		if (!scrollAnchor?.element.isConnected) {
+			return 0;
+		}
+
+		/**
+		 * When stuck to the top, content added above is the newest content
+		 * and should be scrolled to, rather than kept out of view.
+		 */
+		if (getDirection() < 0 && state.isAtBottom) {
+			return 0;
+		}
+
+		/**
+		 * Browsers with scroll anchoring will have already adjusted the scroll
+		 * position by the time we get here, so only make up the difference.
+		 */
+		const shift =
+			getContentOffset(scrollAnchor.element) -
+			scrollAnchor.offset -
+			(state.scrollTop - scrollAnchor.scrollTop);
+
+		if (shift) {
+			state.scrollTop += shift;
+		}
+
+		return shift;
+	};
+
+	const updateIsNearTop = () => {
+		if (settlingInitialScroll) {
+			return;
+		}
+
+		const { reachTopOffset = DEFAULT_REACH_TOP_OFFSET_PX } = options;
+		const nearTop = state.scrollTop <= resolveOffset(reachTopOffset);
+
+		if (isNearTop === nearTop) {
+			return;
+		}
+
+		isNearTop = nearTop;
+
+		if (nearTop) {
+			emit({ type: "reachtop" });
+		}
+	};
+
+	let selectionDocument: Document | null = null;
+	let pointerPressed = false;
+	let shiftPressed = false;
+	let lastSelectionChange = Number.NEGATIVE_INFINITY;
+
+	/**
+	 * Like `contains`, but also looks through the hosts of shadow roots.
+	 */
+	const isInScrollElement = (node: Node) => {
+		let current: Node | undefined = node;
+
+		while (current && scrollElement) {
+			if (scrollElement.contains(current)) {
+				return true;
+			}
+
+			current = (current.getRootNode() as Partial<ShadowRoot>).host;
+		}
+
+		return false;
+	};
+
+	const getSelectionRange = (): AbstractRange | undefined => {
+		if (!scrollElement || !selectionDocument) {
+			return;
+		}
+
+		const root = scrollElement.getRootNode() as Partial<ShadowRoot> & {
+			getSelection?(): Selection | null;
+		};
+		const shadowRoot = root.host ? (root as ShadowRoot) : undefined;
+
+		/**
+		 * `document.getSelection()` retargets a selection inside of a shadow root
+		 * to its host. Chromium has `getSelection` on the shadow root itself,
+		 * and other browsers `getComposedRanges` to see inside of it.
+		 */
+		const selection =
+			shadowRoot && root.getSelection
+				? root.getSelection()
+				: selectionDocument.getSelection();
+
+		if (!selection || !selection.rangeCount) {
+			return;
+		}
+
+		const { getComposedRanges } = selection as Partial<{
+			getComposedRanges(options: { shadowRoots: ShadowRoot[] }): StaticRange[];
+		}>;
+
+		const range: AbstractRange =
+			(shadowRoot &&
+				getComposedRanges?.call(selection, { shadowRoots: [shadowRoot] })[0]) ||
+			selection.getRangeAt(0);
+
+		if (
+			isInScrollElement(range.startContainer) ||
+			isInScrollElement(range.endContainer) ||
+			("intersectsNode" in range &&
+				(range as Range).intersectsNode(scrollElement))
+		) {
+			return range;
+		}
+	};
+
+	/**
+	 * Whether the user is in the middle of selecting text inside the scroll
+	 * element, with a pointer, the keyboard (Shift+Arrow) or touch handles.
+	 */
+	const isSelecting = () => {
+		if (options.whileSelecting === "follow") {
+			return false;
+		}
+
+		if (pointerPressed) {
+			return !!getSelectionRange();
+		}
+
+		if (
+			!shiftPressed &&
+			environment.dateNow() - lastSelectionChange > SELECTION_IDLE_MS
+		) {
+			return false;
+		}
+
+		return getSelectionRange()?.collapsed === false;
+	};
+
+	const handlePointerPress = ({ type }: Event) => {
+		pointerPressed = type === "pointerdown";
+	};
+
+	const handleShiftKey = ({ type, key }: KeyboardEvent) => {
+		if (key === "Shift") {
+			shiftPressed = type === "keydown";
+		}
+	};
+
+	const handleSelectionChange = () => {
+		/**
+		 * Only selections made without a pointer or Shift pressed
+		 * need the idle timeout to tell when they're finished.
+		 */
+		if (!pointerPressed && !shiftPressed) {
+			lastSelectionChange = environment.dateNow();
+		}
+
+		if (
+			options.whileSelecting === "escape" &&
+			state.isAtBottom &&
+			!state.animation?.ignoreEscapes &&
+			getSelectionRange()?.collapsed === false
+		) {
+			cancelScrollTo("selection");
+			escapeLock("selection");
+		}
+	};
+
+	/**
+	 * Bound to the scroll element's document rather than the global one,
+	 * since the selection can start outside of the scroll element.
+	 */
+	const selectionListeners: [string, EventListener][] = [
+		["pointerdown", handlePointerPress],
+		["pointerup", handlePointerPress],
+		["pointercancel", handlePointerPress],
+		["click", handlePointerPress],
+		["keydown", handleShiftKey as EventListener],
+		["keyup", handleShiftKey as EventListener],
+		["selectionchange", handleSelectionChange],
+	];
+
+	const setSelectionDocument = (document: Document | null) => {
+		for (const [type, listener] of selectionListeners) {
+			selectionDocument?.removeEventListener(type, listener);
+		}
+
+		selectionDocument = document;
+		pointerPressed = false;
+		shiftPressed = false;
+
+		for (const [type, listener] of selectionListeners) {
+			selectionDocument?.addEventListener(type, listener, { passive: true });
+		}
+	};
+
+	const setLockState = (
+		{
+			isAtBottom = state.isAtBottom,
+			escapedFromLock = state.escapedFromLock,
+		}: Partial<Pick<StickToBottomState, "isAtBottom" | "escapedFromLock">>,
+		cause: StickToBottomEventCause,
+	) => {
+		const wasAtBottom = state.isAtBottom;
+
+		if (
+			wasAtBottom === isAtBottom &&
+			state.escapedFromLock === escapedFromLock
+		) {
+			return;
+		}
+
+		state.isAtBottom = isAtBottom;
+		state.escapedFromLock = escapedFromLock;
+
+		if (wasAtBottom !== isAtBottom) {
+			/**
+			 * Reaching the bottom by hand means everything has been seen, a
+			 * programmatic scroll only once its animation makes it there.
+			 */
+			if (!isAtBottom || cause !== "programmatic") {
+				setUnread({ height: 0, count: 0 });
+			}
+
+			if (!isAtBottom) {
+				escapeCause = cause;
+			}
+
+			emit({ type: isAtBottom ? "reengage" : "escape", cause });
+		}
+
+		emit({ type: "change", cause });
+	};
+
+	const escapeLock = (cause: StickToBottomEventCause) => {
+		setLockState({ escapedFromLock: true, isAtBottom: false }, cause);
+	};
+
+	const setIsNearBottom = (
+		nearBottom: boolean,
+		cause: StickToBottomEventCause,
+	) => {
+		if (isNearBottom === nearBottom) {
+			return;
+		}
+
+		isNearBottom = nearBottom;
+		emit({ type: "nearbottomchange", isNearBottom, cause });
+		emit({ type: "change", cause });
+	};
+
+	const setUnread = (nextUnread: StickToBottomUnread) => {
+		if (
+			unread.height === nextUnread.height &&
+			unread.count === nextUnread.count
+		) {
+			return;
+		}
+
+		unread = nextUnread;
+		emit({ type: "unreadchange", unread });
+	};
+
+	const endAnimation = (cause?: StickToBottomEventCause) => {
+		const { animation } = state;
+
+		if (!animation) {
+			return;
+		}
+
+		state.animation = undefined;
+
+		/**
+		 * Once a scroll makes it to the bottom, everything has been seen.
+		 */
+		if (!cause && state.isAtBottom) {
+			setUnread({ height: 0, count: 0 });
+		}
+
+		emit(
+			cause
+				? { type: "animationcancel", animation: animation.behavior, cause }
+				: { type: "animationcomplete", animation: animation.behavior },
+		);
+	};
+
+	/**
+	 * Resolved when each scroll starts, so a change to the user's
+	 * motion preference applies to the next scroll.
+	 */
+	const resolveAnimation = (
+		...animations: (Animation | boolean | undefined)[]
+	): ScrollAnimationBehavior => {
+		const { reducedMotion = "auto" } = options;
+
+		if (
+			reducedMotion === "always" ||
+			(reducedMotion === "auto" && prefersReducedMotion(getWindow()))
+		) {
+			return "instant";
+		}
+
+		return mergeAnimations(...animations);
+	};
+
+	let lastCalculation:
+		| { targetScrollTop: number; calculatedScrollTop: number }
+		| undefined;
+
+	const state: StickToBottomState = {
+		escapedFromLock: false,
+		isAtBottom: initialOptions.initial !== false,
+		resizeDifference: 0,
+		accumulated: 0,
+		velocity: 0,
+
+		get scrollTop() {
+			return scrollElement?.scrollTop ?? 0;
+		},
+		set scrollTop(scrollTop: number) {
+			if (scrollElement) {
+				const previousScrollTop = scrollElement.scrollTop;
+				scrollElement.scrollTop = scrollTop;
+				state.ignoreScrollToTop = scrollElement.scrollTop;
+
+				if (scrollAnchor) {
+					scrollAnchor.scrollTop += state.ignoreScrollToTop - previousScrollTop;
+				}
+			}
+		},
+
+		get targetScrollTop() {
+			if (!scrollElement || !contentElement || getDirection() < 0) {
+				return 0;
+			}
+
+			const maxScrollTop =
+				scrollElement.scrollHeight - 1 - getClientHeight(scrollElement);
+
+			if (!virtualizer || contentHeight === undefined) {
+				return maxScrollTop;
+			}
+
+			/**
+			 * The content element's height is only an estimate with a virtualizer,
+			 * so the bottom is where its total size ends instead, keeping the space
+			 * around the content element.
+			 */
+			const bottom = maxScrollTop - contentHeight + virtualizer.getTotalSize();
+
+			return Math.max(0, Math.min(bottom, maxScrollTop));
+		},
+		get calculatedTargetScrollTop() {
+			if (!scrollElement || !contentElement) {
+				return 0;
+			}
+
+			const { targetScrollTop } = this;
+
+			if (!options.targetScrollTop) {
+				return targetScrollTop;
+			}
+
+			if (lastCalculation?.targetScrollTop === targetScrollTop) {
+				return lastCalculation.calculatedScrollTop;
+			}
+
+			const maxScrollTop =
+				scrollElement.scrollHeight - 1 - getClientHeight(scrollElement);
+			const customScrollTop = options.targetScrollTop(targetScrollTop, {
+				scrollElement,
+				contentElement,
+			});
+
+			/**
+			 * The custom target can never go past the edge we're sticking to.
+			 */
+			const calculatedScrollTop =
+				getDirection() > 0
+					? Math.max(Math.min(customScrollTop, targetScrollTop), 0)
+					: Math.min(Math.max(customScrollTop, targetScrollTop), maxScrollTop);
+
+			lastCalculation = { targetScrollTop, calculatedScrollTop };
+
+			environment.requestAnimationFrame(() => {
+				lastCalculation = undefined;
+			});
+
+			return calculatedScrollTop;
+		},
+
+		get scrollDifference() {
+			return (this.calculatedTargetScrollTop - this.scrollTop) * getDirection();
+		},
+
+		get nearBottomOffset() {
+			const {
+				nearBottomOffset = DEFAULT_NEAR_BOTTOM_OFFSET_PX,
+				nearBottomHysteresis = 0,
+			} = options;
+
+			let offset = resolveOffset(nearBottomOffset);
+
+			if (isNearBottom) {
+				offset += resolveOffset(nearBottomHysteresis);
+			}
+
+			return offset;
+		},
+
+		get isNearBottom() {
+			return this.scrollDifference <= this.nearBottomOffset;
+		},
+
+		get isInReengageZone() {
+			const {
+				nearBottomOffset = DEFAULT_NEAR_BOTTOM_OFFSET_PX,
+				reengageOffset = nearBottomOffset,
+			} = options;
+
+			return this.scrollDifference <= resolveOffset(reengageOffset);
+		},
+	};
+
+	const scrollToBottom: ScrollToBottom = (scrollOptions = {}) => {
+		if (typeof scrollOptions === "string") {
+			scrollOptions = { animation: scrollOptions };
+		}
+
+		if (!scrollOptions.preserveScrollPosition) {
+			setLockState({ isAtBottom: true }, "programmatic");
+		}
+
+		const waitElapsed =
+			environment.dateNow() + (Number(scrollOptions.wait) || 0);
+		const behavior = resolveAnimation(options, scrollOptions.animation);
+		const { ignoreEscapes = false } = scrollOptions;
+
+		let durationElapsed: number;
+		let startTarget = state.calculatedTargetScrollTop;
+		let easingStart: { tick: number; scrollTop: number } | undefined;
+
+		if (scrollOptions.duration instanceof Promise) {
+			scrollOptions.duration.finally(() => {
+				durationElapsed = environment.dateNow();
+			});
+		} else {
+			durationElapsed = waitElapsed + (scrollOptions.duration ?? 0);
+		}
+
+		const next = async (): Promise<boolean> => {
+			const promise = new Promise(environment.requestAnimationFrame).then(
+				() => {
+					if (!state.isAtBottom || destroyed) {
+						if (state.animation?.kind === "bottom") {
+							endAnimation(destroyed ? "programmatic" : escapeCause);
+						}
+
+						return false;
+					}
+
+					const { scrollTop } = state;
+					const direction = getDirection();
+					const tick = environment.now();
+					const tickDelta =
+						(tick - (state.lastTick ?? tick)) / SIXTY_FPS_INTERVAL_MS;
+					if (!state.animation) {
+						state.animation = {
+							behavior,
+							kind: "bottom",
+							promise,
+							ignoreEscapes,
+						};
+						emit({ type: "animationstart", animation: behavior });
+					}
+
+					if (state.animation.behavior === behavior) {
+						state.lastTick = tick;
+					}
+
+					/**
+					 * Holds only defer following the content,
+					 * an explicit scroll to the bottom goes ahead.
+					 */
+					if (
+						isSelecting() ||
+						state.gesture ||
+						(holds.size && scrollOptions.preserveScrollPosition)
+					) {
+						return next();
+					}
+
+					if (waitElapsed > environment.dateNow()) {
+						return next();
+					}
+
+					if (
+						scrollTop * direction <
+						Math.min(
+							startTarget * direction,
+							state.calculatedTargetScrollTop * direction,
+						)
+					) {
+						if (state.animation?.behavior === behavior) {
+							if (behavior === "instant") {
+								state.scrollTop = state.calculatedTargetScrollTop;
+								return next();
+							}
+
+							/**
+							 * Eased animations follow the target as it moves,
+							 * but always arrive once the duration has passed.
+							 */
+							if ("easing" in behavior) {
+								easingStart ??= { tick, scrollTop };
+
+								const progress = Math.min(
+									(tick - easingStart.tick) / behavior.duration,
+									1,
+								);
+
+								state.scrollTop =
+									easingStart.scrollTop +
+									(state.calculatedTargetScrollTop - easingStart.scrollTop) *
+										behavior.easing(progress);
+
+								return next();
+							}
+
+							const { scrollDifference } = state;
+							const maxLag = getMaxLag(
+								behavior.maxLag,
+								scrollDifference,
+								tickDelta,
+							);
+
+							state.velocity =
+								(behavior.damping * state.velocity +
+									behavior.stiffness * scrollDifference) /
+								behavior.mass;
+							state.accumulated += state.velocity * tickDelta;
+							state.scrollTop += state.accumulated * direction;
+
+							if (state.scrollTop !== scrollTop) {
+								state.accumulated = 0;
+							}
+
+							/**
+							 * When the spring falls too far behind, catch up to the bound
+							 * and carry on from its speed, so that it doesn't lurch back.
+							 */
+							if (state.scrollDifference > maxLag) {
+								state.scrollTop =
+									state.calculatedTargetScrollTop - maxLag * direction;
+								state.velocity = tickDelta
+									? (scrollDifference - maxLag) / tickDelta
+									: 0;
+								state.accumulated = 0;
+							}
+						}
+
+						return next();
+					}
+
+					if (durationElapsed > environment.dateNow()) {
+						startTarget = state.calculatedTargetScrollTop;
+
+						return next();
+					}
+
+					endAnimation();
+
+					/**
+					 * If we're still below the target, then queue
+					 * up another scroll to the bottom with the last
+					 * requested animatino.
+					 */
+					if (state.scrollDifference > 0) {
+						return scrollToBottom({
+							animation: resolveAnimation(options, options.resize),
+							ignoreEscapes,
+							duration:
+								Math.max(0, durationElapsed - environment.dateNow()) ||
+								undefined,
+						});
+					}
+
+					return state.isAtBottom;
+				},
+			);
+
+			return promise.then((isAtBottom) => {
+				environment.requestAnimationFrame(() => {
+					if (!state.animation) {
+						state.lastTick = undefined;
+						state.velocity = 0;
+					}
+				});
+
+				return isAtBottom;
+			});
+		};
+
+		if (scrollOptions.wait !== true) {
+			endAnimation("programmatic");
+		}
+
+		if (
+			state.animation?.kind === "bottom" &&
+			state.animation.behavior === behavior
+		) {
+			return state.animation.promise;
+		}
+
+		return next();
+	};
+
+	const stopScroll: StopScroll = () => {
+		escapeLock("programmatic");
+	};
+
+	/**
+	 * Animations to a position are cancelled by any user scroll,
+	 * as there's no lock for them to be escaped from.
+	 */
+	const cancelScrollTo = (cause: StickToBottomEventCause) => {
+		if (!state.isAtBottom) {
+			endAnimation(cause);
+		}
+	};
+
+	const animateTo = (
+		getTarget: () => number,
+		{ animation, reengage = false }: ScrollToPositionOptions,
+	): Promise<boolean> => {
+		const behavior = resolveAnimation(options, animation);
+
+		endAnimation("programmatic");
+		escapeLock("programmatic");
+
+		if (!scrollElement) {
+			return Promise.resolve(false);
+		}
+
+		const getClampedTarget = () =>
+			scrollElement
+				? Math.max(
+						0,
+						Math.min(
+							getTarget(),
+							scrollElement.scrollHeight - getClientHeight(scrollElement),
+						),
+					)
+				: 0;
+
+		const initialDirection = Math.sign(getClampedTarget() - state.scrollTop);
+		const easingStart = { tick: environment.now(), scrollTop: state.scrollTop };
+
+		const next = (): Promise<boolean> =>
+			new Promise(environment.requestAnimationFrame).then(() => {
+				if (state.animation !== current || destroyed) {
+					return false;
+				}
+
+				const { scrollTop } = state;
+				const target = getClampedTarget();
+				const difference = target - scrollTop;
+				const tick = environment.now();
+				const tickDelta =
+					(tick - (state.lastTick ?? tick)) / SIXTY_FPS_INTERVAL_MS;
+				state.lastTick = tick;
+
+				if (isSelecting() || state.gesture) {
+					return next();
+				}
+
+				const progress =
+					behavior !== "instant" && "easing" in behavior
+						? Math.min((tick - easingStart.tick) / behavior.duration, 1)
+						: 0;
+
+				/**
+				 * Like `scrollToBottom`, finish as soon as the target is reached
+				 * rather than letting the spring oscillate around it.
+				 */
+				if (
+					behavior === "instant" ||
+					progress === 1 ||
+					Math.abs(difference) < 1 ||
+					Math.sign(difference) !== initialDirection
+				) {
+					state.scrollTop = target;
+					state.lastTick = undefined;
+					state.velocity = 0;
+					state.accumulated = 0;
+
+					if (reengage && state.isInReengageZone) {
+						setLockState(
+							{ escapedFromLock: false, isAtBottom: true },
+							"programmatic",
+						);
+					}
+
+					endAnimation();
+
+					return true;
+				}
+
+				if ("easing" in behavior) {
+					state.scrollTop =
+						easingStart.scrollTop +
+						(target - easingStart.scrollTop) * behavior.easing(progress);
+
+					return next();
+				}
+
+				state.velocity =
+					(behavior.damping * state.velocity +
+						behavior.stiffness * difference) /
+					behavior.mass;
+				state.accumulated += state.velocity * tickDelta;
+				state.scrollTop += state.accumulated;
+
+				if (state.scrollTop !== scrollTop) {
+					state.accumulated = 0;
+				}
+
+				return next();
+			});
+
+		state.velocity = 0;
+		state.accumulated = 0;
+		state.lastTick = undefined;
+
+		const current: NonNullable<StickToBottomState["animation"]> = {
+			behavior,
+			kind: "position",
+			ignoreEscapes: false,
+			promise: Promise.resolve(false),
+		};
+
+		state.animation = current;
+		emit({ type: "animationstart", animation: behavior });
+
+		current.promise = next();
+
+		return current.promise;
+	};
+
+	const scrollTo: ScrollTo = (scrollTop, scrollOptions = {}) =>
+		animateTo(() => scrollTop, scrollOptions);
+
+	const scrollToElement: ScrollToElement = (element, scrollOptions = {}) => {
+		const { align = "start", offset = 0 } = scrollOptions;
+
+		return animateTo(() => {
+			if (!scrollElement) {
+				return 0;
+			}
+
+			const rect = element.getBoundingClientRect();
+			const clientHeight = getClientHeight(scrollElement);
+			const top = rect.top - getViewportTop(scrollElement) + state.scrollTop;
+			const start = top - offset;
+			const end = top + rect.height - clientHeight + offset;
+
+			switch (align) {
+				case "center":
+					return top - (clientHeight - rect.height) / 2;
+				case "end":
+					return end;
+				case "nearest":
+					if (state.scrollTop > start) {
+						return start;
+					}
+
+					return state.scrollTop < end ? end : state.scrollTop;
+				default:
+					return start;
+			}
+		}, scrollOptions);
+	};
+
+	const handleScroll = ({ target }: Event) => {
+		if (
+			target !== scrollElement &&
+			!(scrollTarget === "window" && target === scrollElement?.ownerDocument)
+		) {
+			return;
+		}
+
+		const { scrollTop, ignoreScrollToTop } = state;
+		let { lastScrollTop = scrollTop } = state;
+
+		state.lastScrollTop = scrollTop;
+		state.ignoreScrollToTop = undefined;
+
+		if (
+			ignoreScrollToTop !== undefined &&
+			ignoreScrollToTop * getDirection() > scrollTop * getDirection()
+		) {
+			/**
+			 * When the user scrolls up while the animation plays, the `scrollTop` may
+			 * not come in separate events; if this happens, to make sure `isScrollingAway`
+			 * is correct, set the lastScrollTop to the ignored event.
+			 */
+			lastScrollTop = ignoreScrollToTop;
+		}
+
+		setIsNearBottom(state.isNearBottom, "scroll");
+		updateScrollAnchor();
+		updateIsNearTop();
+
+		/**
+		 * Scroll events may come before a ResizeObserver event,
+		 * so in order to ignore resize events correctly we use a
+		 * timeout.
+		 *
+		 * @see https://github.com/WICG/resize-observer/issues/25#issuecomment-248757228
+		 */
+		environment.setTimeout(() => {
+			/**
+			 * When theres a resize difference ignore the resize event.
+			 */
+			if (state.resizeDifference || scrollTop === ignoreScrollToTop) {
+				return;
+			}
+
+			cancelScrollTo("scroll");
+
+			if (isSelecting()) {
+				escapeLock("selection");
+				return;
+			}
+
+			const isScrollingTowards =
+				scrollTop * getDirection() > lastScrollTop * getDirection();
+			const isScrollingAway =
+				scrollTop * getDirection() < lastScrollTop * getDirection();
+
+			if (state.animation?.ignoreEscapes) {
+				state.scrollTop = lastScrollTop;
+				return;
+			}
+
+			if (isScrollingAway) {
+				escapeLock("scroll");
+			}
+
+			if (isScrollingTowards) {
+				setLockState({ escapedFromLock: false }, "scroll");
+			}
+
+			if (!state.escapedFromLock && state.isInReengageZone) {
+				setLockState({ isAtBottom: true }, "scroll");
+			}
+		}, 1);
+	};
+
+	const handleWheel = (event: WheelEvent) => {
+		const { deltaY } = event;
+
+		/**
+		 * Unlike walking up the parent elements, the composed path
+		 * also goes through the elements inside of shadow roots.
+		 */
+		let element = event.composedPath().find(isScrollable);
+
+		if (!element) {
+			/**
+			 * When the window scrolls, none of the ancestors need to
+			 * have an overflow set - so the document is what scrolls.
+			 */
+			if (scrollTarget !== "window" || !scrollElement) {
+				return;
+			}
+
+			element = scrollElement;
+		}
+
+		if (element === scrollElement) {
+			cancelScrollTo("wheel");
+		}
+
+		/**
+		 * The browser may cancel the scrolling from the mouse wheel
+		 * if we update it from the animation in meantime.
+		 * To prevent this, always escape when the wheel is scrolled away
+		 * from the edge we're sticking to.
+		 */
+		if (
+			element === scrollElement &&
+			deltaY * getDirection() < 0 &&
+			scrollElement.scrollHeight > getClientHeight(scrollElement) &&
+			!state.animation?.ignoreEscapes
+		) {
+			escapeLock("wheel");
+		}
+	};
+
+	/**
+	 * Whether the scroll element can be scrolled any further away from the
+	 * edge we're sticking to, escaping when it can't would stop following
+	 * content that only grows past the viewport later.
+	 */
+	const canScrollAway = () => {
+		if (!scrollElement) {
+			return false;
+		}
+
+		const maxScrollTop =
+			scrollElement.scrollHeight - getClientHeight(scrollElement);
+
+		if (maxScrollTop <= 0) {
+			return false;
+		}
+
+		return getDirection() > 0
+			? state.scrollTop > 0
+			: state.scrollTop < maxScrollTop - 1;
+	};
+
+	const handleKeyDown = (event: KeyboardEvent) => {
+		/**
+		 * The target is retargeted to the host of a shadow root,
+		 * the first element of the composed path is the actual target.
+		 */
+		if (options.keyMap === false || isEditable(event.composedPath()[0])) {
+			return;
+		}
+
+		const defaultKeyMap = DEFAULT_KEY_MAPS[options.direction ?? "bottom"];
+		const keyMap = { ...defaultKeyMap, ...options.keyMap };
+
+		/**
+		 * Keyboard scrolling fights the animation the same way
+		 * the mouse wheel does, so escape before the browser scrolls.
+		 */
+		if (
+			keyMap.escape.some((binding) => matchesKeyBinding(event, binding)) &&
+			canScrollAway() &&
+			!state.animation?.ignoreEscapes
+		) {
+			cancelScrollTo("keyboard");
+			escapeLock("keyboard");
+			return;
+		}
+
+		if (keyMap.reengage.some((binding) => matchesKeyBinding(event, binding))) {
+			setLockState({ escapedFromLock: false, isAtBottom: true }, "keyboard");
+			scrollToBottom();
+		}
+	};
+
+	let lastTouchY: number | undefined;
+
+	const handleTouchStart = ({ touches }: TouchEvent) => {
+		cancelScrollTo("touch");
+		state.gesture = "touch";
+		lastTouchY = touches[0]?.clientY;
+	};
+
+	const handleTouchMove = ({ touches }: TouchEvent) => {
+		const touchY = touches[0]?.clientY;
+
+		if (touchY === undefined || lastTouchY === undefined) {
+			return;
+		}
+
+		/**
+		 * On iOS the animation can overwrite the scroll position from the
+		 * touch before the scroll event is handled, so mirror `handleWheel`
+		 * and escape as soon as the finger drags away from the edge.
+		 */
+		const deltaY = lastTouchY - touchY;
+		lastTouchY = touchY;
+
+		if (
+			deltaY * getDirection() < 0 &&
+			scrollElement &&
+			scrollElement.scrollHeight > getClientHeight(scrollElement) &&
+			!state.animation?.ignoreEscapes
+		) {
+			escapeLock("touch");
+		}
+	};
+
+	const handleTouchEnd = ({ touches }: TouchEvent) => {
+		if (touches.length || state.gesture !== "touch") {
+			return;
+		}
+
+		state.gesture = undefined;
+		lastTouchY = undefined;
+	};
+
+	const handlePointerDown = ({
+		target,
+		offsetX,
+		pointerType,
+	}: PointerEvent) => {
+		if (
+			pointerType === "touch" ||
+			!scrollElement ||
+			target !== scrollElement ||
+			offsetX < scrollElement.clientWidth
+		) {
+			return;
+		}
+
+		/**
+		 * The pointer is over the scrollbar, dragging the thumb is treated
+		 * the same as any other user scroll - it escapes the lock and
+		 * `handleScroll` re-engages it if the thumb is dragged to the bottom.
+		 */
+		state.gesture = "scrollbar";
+		cancelScrollTo("scrollbar");
+
+		if (!state.animation?.ignoreEscapes) {
+			escapeLock("scrollbar");
+		}
+
+		const { defaultView } = scrollElement.ownerDocument;
+
+		const handlePointerUp = ({ type, buttons }: PointerEvent) => {
+			/**
+			 * Some browsers don't dispatch a `pointerup` after a scrollbar drag,
+			 * so also end the gesture on the next move without buttons pressed.
+			 */
+			if (type === "pointermove" && buttons) {
+				return;
+			}
+
+			if (state.gesture === "scrollbar") {
+				state.gesture = undefined;
+			}
+
+			defaultView?.removeEventListener("pointerup", handlePointerUp);
+			defaultView?.removeEventListener("pointercancel", handlePointerUp);
+			defaultView?.removeEventListener("pointermove", handlePointerUp);
+		};
+
+		defaultView?.addEventListener("pointerup", handlePointerUp);
+		defaultView?.addEventListener("pointercancel", handlePointerUp);
+		defaultView?.addEventListener("pointermove", handlePointerUp);
+	};
+
+	/**
+	 * Scroll events caused by a resize aren't from the user, so they're
+	 * ignored until the scroll event for the resize has been handled.
+	 * Requires a rAF to wait for the scroll event, and a setTimeout to wait
+	 * for the other timeout we have in `handleScroll` in case the scroll
+	 * event happens after the resize event.
+	 */
+	const setResizeDifference = (difference: number) => {
+		state.resizeDifference = difference;
+
+		environment.requestAnimationFrame(() => {
+			environment.setTimeout(() => {
+				if (state.resizeDifference === difference) {
+					state.resizeDifference = 0;
+				}
+			}, 1);
+		});
+	};
+
+	let previousClientHeight: number | undefined;
+	let scrollResizeObserver: ResizeObserver | undefined;
+
+	/**
+	 * When the viewport shrinks (e.g. a split pane being dragged, or the
+	 * on-screen keyboard opening), the bottom moves out of view without
+	 * the content changing, so scroll back to it if we're at the bottom.
+	 */
+	const handleViewportResize = () => {
+		if (!scrollElement) {
+			return;
+		}
+
+		const clientHeight = getClientHeight(scrollElement);
+		const difference = clientHeight - (previousClientHeight ?? clientHeight);
+		previousClientHeight = clientHeight;
+
+		if (!difference) {
+			return;
+		}
+
+		emit({
+			type: "resize",
+			target: "viewport",
+			height: clientHeight,
+			difference,
+		});
+
+		/**
+		 * Growing the viewport clamps the scroll position,
+		 * which isn't the user scrolling away.
+		 */
+		setResizeDifference(difference);
+		setIsNearBottom(state.isNearBottom, "resize");
+		updateIsNearTop();
+
+		if (state.isAtBottom) {
+			scrollToBottom({ animation: "instant", preserveScrollPosition: true });
+		}
+	};
+
+	/**
+	 * The element inside the scroll element with keyboard focus, and
+	 * the hold that suspends following while it's above the near bottom zone.
+	 */
+	let focusedElement: Element | undefined;
+	let releaseFocusHold: (() => void) | undefined;
+
+	const isFocusAboveBottomZone = () => {
+		if (
+			options.whileFocused === "follow" ||
+			!focusedElement?.isConnected ||
+			!contentElement
+		) {
+			return false;
+		}
+
+		const distance =
+			(contentElement.getBoundingClientRect().bottom -
+				focusedElement.getBoundingClientRect().bottom) *
+			getDirection();
+
+		return distance > state.nearBottomOffset;
+	};
+
+	const updateFocusHold = () => {
+		if (isFocusAboveBottomZone()) {
+			releaseFocusHold ??= hold("focus");
+		} else {
+			releaseFocusHold?.();
+			releaseFocusHold = undefined;
+		}
+	};
+
+	const handleFocusIn = (event: FocusEvent) => {
+		const [target] = event.composedPath();
+
+		/**
+		 * Focusing the scroll or content element itself, such as when the scroll
+		 * button moves focus there, isn't reading anything above the bottom.
+		 */
+		focusedElement =
+			isElement(target) &&
+			target !== contentElement &&
+			contentElement?.contains(target) &&
+			isFocusVisible(target)
+				? target
+				: undefined;
+		updateFocusHold();
+	};
+
+	const handleFocusOut = ({ relatedTarget }: FocusEvent) => {
+		/**
+		 * Focus moving within the scroll element is handled by the `focusin`
+		 * that follows, releasing the hold in between would catch up.
+		 */
+		if (isElement(relatedTarget) && isInScrollElement(relatedTarget)) {
+			return;
+		}
+
+		focusedElement = undefined;
+		updateFocusHold();
+	};
+
+	const eventListeners: [string, EventListener, AddEventListenerOptions?][] = [
+		["scroll", handleScroll, { passive: true }],
+		["resize", handleViewportResize, { passive: true }],
+		["wheel", handleWheel as EventListener, { passive: true }],
+		["keydown", handleKeyDown as EventListener],
+		["touchstart", handleTouchStart as EventListener, { passive: true }],
+		["touchmove", handleTouchMove as EventListener, { passive: true }],
+		["touchend", handleTouchEnd as EventListener, { passive: true }],
+		["touchcancel", handleTouchEnd as EventListener, { passive: true }],
+		["pointerdown", handlePointerDown as EventListener, { passive: true }],
+		["focusin", handleFocusIn as EventListener],
+		["focusout", handleFocusOut as EventListener],
+	];
+
+	const setScrollElement = (scroll: ScrollElement | null) => {
+		for (const [type, listener] of eventListeners) {
+			eventTarget?.removeEventListener(type, listener);
+		}
+
+		state.gesture = undefined;
+		scrollResizeObserver?.disconnect();
+		previousClientHeight = undefined;
+		focusedElement = undefined;
+		updateFocusHold();
+
+		scrollTarget = scroll;
+
+		if (scroll === "window") {
+			/**
+			 * The content can be rendered into another window's document, such as a popout.
+			 */
+			const ownerDocument = contentElement?.ownerDocument ?? document;
+
+			scrollElement = (ownerDocument.scrollingElement ??
+				ownerDocument.documentElement) as HTMLElement;
+			eventTarget = ownerDocument.defaultView;
+		} else {
+			scrollElement = scroll;
+			eventTarget = scroll;
+		}
+
+		for (const [type, listener, listenerOptions] of eventListeners) {
+			eventTarget?.addEventListener(type, listener, listenerOptions);
+		}
+
+		setSelectionDocument(scrollElement?.ownerDocument ?? null);
+
+		if (scrollElement) {
+			previousClientHeight = getClientHeight(scrollElement);
+		}
+
+		/**
+		 * The window's viewport is covered by its `resize` event instead.
+		 */
+		if (scroll && scroll !== "window") {
+			scrollResizeObserver = new environment.ResizeObserver(
+				handleViewportResize,
+			);
+			scrollResizeObserver.observe(scroll);
+		}
+
+		scrollToBottomInitially();
+	};
+
+	let previousHeight: number | undefined;
+	let contentHeight: number | undefined;
+
+	/**
+	 * With an instant initial scroll, position at the bottom as soon as both
+	 * elements are attached rather than a frame later from the `ResizeObserver`.
+	 * When attached from ref callbacks, this happens before the first paint.
+	 */
+	const scrollToBottomInitially = () => {
+		if (
+			!scrollElement ||
+			!contentElement ||
+			previousHeight !== undefined ||
+			!state.isAtBottom ||
+			resolveAnimation(options, options.initial) !== "instant"
+		) {
+			return;
+		}
+
+		state.scrollTop = state.calculatedTargetScrollTop;
+		state.lastScrollTop = state.scrollTop;
+	};
+
+	/**
+	 * The last observed heights of the elements passed to `observe`.
+	 */
+	const observedHeights = new Map<HTMLElement, number>();
+	let observedResizeObserver: ResizeObserver | undefined;
+
+	/**
+	 * The height of everything that's observed, which is what
+	 * resizes are measured against.
+	 */
+	const getObservedHeight = () => {
+		let height = virtualizer?.getTotalSize() ?? contentHeight ?? 0;
+
+		for (const observedHeight of observedHeights.values()) {
+			height += observedHeight;
+		}
+
+		return height;
+	};
+
+	const observe = (element: HTMLElement) => {
+		observedResizeObserver ??= new environment.ResizeObserver((entries) => {
+			for (const { target, contentRect } of entries) {
+				if (observedHeights.has(target as HTMLElement)) {
+					observedHeights.set(target as HTMLElement, contentRect.height);
+				}
+			}
+
+			measure();
+		});
+
+		observedHeights.set(element, 0);
+		observedResizeObserver.observe(element);
+
+		return () => {
+			if (!observedHeights.delete(element)) {
+				return;
+			}
+
+			observedResizeObserver?.unobserve(element);
+			measure();
+		};
+	};
+
+	/**
+	 * Only handles a resize once the content has been measured,
+	 * so that its initial size is treated like the initial render.
+	 */
+	const measure = () => {
+		if (!contentElement || previousHeight === undefined) {
+			return;
+		}
+
+		const height = getObservedHeight();
+
+		if (height !== previousHeight) {
+			handleResize(height);
+		}
+	};
+
+	const setContentElement = (content: HTMLElement | null) => {
+		state.resizeObserver?.disconnect();
+		state.mutationObserver?.disconnect();
+		contentElement = content;
+
+		if (!content) {
+			return;
+		}
+
+		if (
+			scrollTarget === "window" &&
+			content.ownerDocument !== scrollElement?.ownerDocument
+		) {
+			setScrollElement("window");
+		}
+
+		state.mutationObserver = new MutationObserver((mutations) => {
+			if (state.isAtBottom) {
+				return;
+			}
+
+			let count = 0;
+
+			for (const { addedNodes } of mutations) {
+				for (const node of addedNodes) {
+					/**
+					 * Older history prepended above the viewport isn't unread,
+					 * unless new content is added at the top.
+					 */
+					const isPrepended =
+						getDirection() > 0 &&
+						scrollAnchor &&
+						node.compareDocumentPosition(scrollAnchor.element) &
+							Node.DOCUMENT_POSITION_FOLLOWING;
+
+					if (node.nodeType === Node.ELEMENT_NODE && !isPrepended) {
+						count++;
+					}
+				}
+			}
+
+			if (count) {
+				setUnread({ ...unread, count: unread.count + count });
+			}
+		});
+
+		state.mutationObserver.observe(content, { childList: true });
+
+		previousHeight = undefined;
+		contentHeight = undefined;
+
+		state.resizeObserver = new environment.ResizeObserver(([entry]) => {
+			contentHeight = entry.contentRect.height;
+			handleResize(getObservedHeight());
+		});
+
+		state.resizeObserver.observe(content);
+
+		scrollToBottomInitially();
+	};
+
+	const handleResize = (height: number) => {
+		const difference = height - (previousHeight ?? height);
+		const isInitial = previousHeight === undefined;
+		let scrolled: boolean | Promise<boolean> = false;
+
+		if (isInitial) {
+			settlingInitialScroll = true;
+		}
+
+		setResizeDifference(difference);
+		emit({ type: "resize", target: "content", height, difference });
+
+		const prependedHeight = preserveScrollAnchor();
+
+		/**
+		 * Sometimes the browser can overscroll past the target,
+		 * so check for this and adjust appropriately.
+		 */
+		if (getDirection() > 0 && state.scrollTop > state.targetScrollTop) {
+			state.scrollTop = state.targetScrollTop;
+		}
+
+		setIsNearBottom(state.isNearBottom, "resize");
+		updateScrollAnchor();
+		updateIsNearTop();
+
+		const unreadHeight =
+			getDirection() > 0 ? difference - prependedHeight : difference;
+
+		if (unreadHeight > 0 && !state.isAtBottom) {
+			setUnread({
+				...unread,
+				height: unread.height + unreadHeight,
+			});
+		}
+
+		if (difference >= 0) {
+			/**
+			 * The content growing below the focused element
+			 * can move it above the near bottom zone.
+			 */
+			updateFocusHold();
+
+			/**
+			 * If it's a positive resize, scroll to the bottom when
+			 * we're already at the bottom. While held, this is deferred
+			 * until every hold is released.
+			 */
+			if (!holds.size) {
+				const animation = resolveAnimation(
+					options,
+					previousHeight ? options.resize : options.initial,
+				);
+
+				scrolled = scrollToBottom({
+					animation,
+					wait: true,
+					preserveScrollPosition: true,
+					duration:
+						animation === "instant" ? undefined : RETAIN_ANIMATION_DURATION_MS,
+				});
+			}
+		} else {
+			/**
+			 * Else if it's a negative resize, check if we're near the bottom
+			 * if we are want to un-escape from the lock, because the resize
+			 * could have caused the container to be at the bottom.
+			 */
+			if (state.isInReengageZone) {
+				setLockState({ escapedFromLock: false, isAtBottom: true }, "resize");
+			}
+		}
+
+		if (isInitial) {
+			Promise.resolve(scrolled).then(() => {
+				settlingInitialScroll = false;
+				updateIsNearTop();
+			});
+		}
+
+		previousHeight = height;
+	};
+
+	const hold = (reason: string) => {
+		const token = { reason };
+		holds.add(token);
+
+		return () => {
+			if (!holds.delete(token) || holds.size || destroyed) {
+				return;
+			}
+
+			if (state.isAtBottom) {
+				scrollToBottom({
+					animation: resolveAnimation(options, options.resize),
+					preserveScrollPosition: true,
+				});
+			}
+		};
+	};
+
+	const getSnapshot = (): StickToBottomSnapshot => {
+		const { isAtBottom, escapedFromLock } = state;
+
+		const firstVisibleChild = isAtBottom ? undefined : getFirstVisibleChild();
+
+		if (!firstVisibleChild) {
+			return { isAtBottom, escapedFromLock };
+		}
+
+		const { element, index, offset } = firstVisibleChild;
+
+		return {
+			isAtBottom,
+			escapedFromLock,
+			anchor: {
+				key: element.id || element.dataset.key || undefined,
+				index,
+				offset,
+			},
+		};
+	};
+
+	const restore = ({
+		isAtBottom,
+		escapedFromLock,
+		anchor,
+	}: StickToBottomSnapshot) => {
+		setLockState({ isAtBottom, escapedFromLock }, "programmatic");
+
+		if (isAtBottom || !anchor || !scrollElement || !contentElement) {
+			return;
+		}
+
+		const children = Array.from(contentElement.children) as HTMLElement[];
+		const child =
+			(anchor.key &&
+				children.find(
+					(child) =>
+						child.id === anchor.key || child.dataset.key === anchor.key,
+				)) ||
+			children[anchor.index];
+
+		if (!child) {
+			return;
+		}
+
+		const offset =
+			child.getBoundingClientRect().top - getViewportTop(scrollElement);
+
+		state.scrollTop += offset - anchor.offset;
+		state.lastScrollTop = state.scrollTop;
+		setIsNearBottom(state.isNearBottom, "programmatic");
+	};
+
+	setScrollElement(initialScrollElement ?? null);
+	setContentElement(initialContentElement ?? null);
+
+	if (initialOptions.restore) {
+		restore(initialOptions.restore);
+	}
+
+	return {
+		scrollToBottom,
+		stopScroll,
+		scrollTo,
+		scrollToElement,
+		setScrollElement,
+		setContentElement,
+		state,
+
+		setVirtualizer(nextVirtualizer) {
+			virtualizer = nextVirtualizer;
+
+			/**
+			 * The gap between the content element's height and the virtualizer's
+			 * total size isn't a resize, so measure against the new size from here.
+			 */
+			if (previousHeight !== undefined) {
+				previousHeight = getObservedHeight();
+			}
+		},
+
+		subscribe(listener) {
+			listeners.add(listener);
+
+			return () => {
+				listeners.delete(listener);
+			};
+		},
+
+		setOptions(nextOptions) {
+			options = nextOptions;
+		},
+
+		getSnapshot,
+		restore,
+
+		measure,
+		observe,
+		hold,
+
+		destroy() {
+			destroyed = true;
+			endAnimation("programmatic");
+			setScrollElement(null);
+			setContentElement(null);
+			observedResizeObserver?.disconnect();
+			observedHeights.clear();
+			listeners.clear();
+		},
+
+		get scrollElement() {
+			return scrollTarget;
+		},
+		get scrollEventTarget() {
+			return eventTarget;
+		},
+		get contentElement() {
+			return contentElement;
+		},
+		get isAtBottom() {
+			return state.isAtBottom;
+		},
+		get isNearBottom() {
+			return isNearBottom;
+		},
+		get escapedFromLock() {
+			return state.escapedFromLock;
+		},
+		get unread() {
+			return unread;
+		},
+	};
+}
+
+const EASINGS: Record<Exclude<Easing, EasingFunction>, EasingFunction> = {
+	linear: (progress) => progress,
+	"ease-in": (progress) => progress ** 3,
+	"ease-out": (progress) => 1 - (1 - progress) ** 3,
+	"ease-in-out": (progress) =>
+		progress < 0.5 ? 4 * progress ** 3 : 1 - (-2 * progress + 2) ** 3 / 2,
+};
+
+const animationCache = new Map<
+	string,
+	Exclude<ScrollAnimationBehavior, "instant">
+>();
+
+/**
+ * Custom easing functions are often created inline on every render,
+ * so their animations are cached per function to be garbage collected with it.
+ */
+const customEasingAnimations = new WeakMap<
+	EasingFunction,
+	Map<number, EasingAnimationBehavior>
+>();
+
+type EasingAnimationBehavior = Extract<
+	ScrollAnimationBehavior,
+	{ duration: number }
+>;
+
+function mergeAnimations(
+	...animations: (Animation | boolean | undefined)[]
+): ScrollAnimationBehavior {
+	const result: typeof DEFAULT_SPRING_ANIMATION &
+		Pick<SpringAnimation, "maxLag"> = { ...DEFAULT_SPRING_ANIMATION };
+	let instant = false;
+	let easing: EasingAnimation | undefined;
+
+	for (const animation of animations) {
+		if (animation === "instant") {
+			instant = true;
+			continue;
+		}
+
+		if (typeof animation !== "object") {
+			continue;
+		}
+
+		instant = false;
+
+		if ("duration" in animation) {
+			easing = animation;
+			continue;
+		}
+
+		easing = undefined;
+
+		result.damping = animation.damping ?? result.damping;
+		result.stiffness = animation.stiffness ?? result.stiffness;
+		result.mass = animation.mass ?? result.mass;
+		result.maxLag = animation.maxLag ?? result.maxLag;
+	}
+
+	if (instant) {
+		return "instant";
+	}
+
+	/**
+	 * There's nothing to ease without a duration.
+	 */
+	if (easing) {
+		return easing.duration > 0 ? getEasingAnimation(easing) : "instant";
+	}
+
+	const key = JSON.stringify(result);
+
+	if (!animationCache.has(key)) {
+		animationCache.set(key, Object.freeze(result));
+	}
+
+	return animationCache.get(key)!;
+}
+
+/**
+ * Resolves the easing, and caches the result so that the same
+ * animation can be compared by identity like spring animations.
+ */
+function getEasingAnimation({
+	duration,
+	easing = "ease-out",
+}: EasingAnimation) {
+	if (typeof easing === "function") {
+		let animations = customEasingAnimations.get(easing);
+
+		if (!animations) {
+			animations = new Map();
+			customEasingAnimations.set(easing, animations);
+		}
+
+		if (!animations.has(duration)) {
+			animations.set(duration, Object.freeze({ duration, easing }));
+		}
+
+		return animations.get(duration)!;
+	}
+
+	const key = `${duration}:${easing}`;
+
+	if (!animationCache.has(key)) {
+		animationCache.set(
+			key,
+			Object.freeze({ duration, easing: EASINGS[easing] }),
+		);
+	}
+
+	return animationCache.get(key)!;
+}
+
+const reducedMotionQueries = new WeakMap<Window, MediaQueryList>();
+
+function prefersReducedMotion(view: Window | undefined) {
+	if (typeof view?.matchMedia !== "function") {
+		return false;
+	}
+
+	let query = reducedMotionQueries.get(view);
+
+	if (!query) {
+		query = view.matchMedia("(prefers-reduced-motion: reduce)");
+		reducedMotionQueries.set(view, query);
+	}
+
+	return query.matches;
+}
+
+function isElement(
+	target: EventTarget | null | undefined,
+): target is HTMLElement {
+	return (target as Node | null | undefined)?.nodeType === Node.ELEMENT_NODE;
+}
+
+/**
+ * Checks the computed style with the element's own window,
+ * so that it works for elements inside of iframes.
+ */
+function isScrollable(target: EventTarget) {
+	if (!isElement(target)) {
+		return false;
+	}
+
+	const style = target.ownerDocument.defaultView?.getComputedStyle(target);
+
+	return !!style && ["scroll", "auto"].includes(style.overflow);
+}
+
+const MODIFIER_KEYS = {
+	Ctrl: "ctrlKey",
+	Shift: "shiftKey",
+	Alt: "altKey",
+	Meta: "metaKey",
+} as const;
+
+function matchesKeyBinding(event: KeyboardEvent, binding: string) {
+	const parts = binding.split("+");
+	const key = parts.pop();
+	const modifiers = new Set(parts);
+
+	if ((key === "Space" ? " " : key) !== event.key) {
+		return false;
+	}
+
+	return Object.entries(MODIFIER_KEYS).every(
+		([modifier, property]) => modifiers.has(modifier) === event[property],
+	);
+}
+
+function isEditable(target: EventTarget | undefined) {
+	if (!isElement(target)) {
+		return false;
+	}
+
+	return (
+		target.isContentEditable ||
+		["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+	);
+}
+
+/**
+ * Browsers without `:focus-visible` throw, treat all focus as keyboard focus there.
+ */
+function isFocusVisible(element: Element) {
+	try {
+		return element.matches(":focus-visible");
+	} catch {
+		return true;
+	}
+}
+
+/**
+ * How far behind the target the spring can be after a tick of `tickDelta` frames,
+ * a duration decays the distance exponentially so that it never stops short.
+ */
+function getMaxLag(
+	maxLag: SpringMaxLag | undefined,
+	scrollDifference: number,
+	tickDelta: number,
+) {
+	if (maxLag === undefined) {
+		return Number.POSITIVE_INFINITY;
+	}
+
+	if (typeof maxLag === "number") {
+		return Math.max(maxLag, 0);
+	}
+
+	const duration = Number.parseFloat(maxLag);
+	const elapsed = tickDelta * SIXTY_FPS_INTERVAL_MS;
+
+	return duration > 0 ? scrollDifference * Math.exp(-elapsed / duration) : 0;
+}
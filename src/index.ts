@@ -1,2 +1,6 @@
+export * from "./createStickToBottom.js";
 export * from "./useStickToBottom.js";
 export * from "./StickToBottom.js";
+export * from "./virtualizers.js";
+export * from "./targets.js";
+export * from "./recorder.js";
@@ -0,0 +1,84 @@
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it } from "vitest";
+import { createStickToBottom } from "./createStickToBottom.js";
+import { createStickToBottomRecorder } from "./recorder.js";
+import { createTestEnvironment } from "./testing.js";
+
+const cleanups: (() => void)[] = [];
+
+afterEach(() => {
+	for (const cleanup of cleanups.splice(0)) {
+		cleanup();
+	}
+});
+
+async function setup() {
+	const env = createTestEnvironment();
+	const container = env.createScrollContainer({ height: 500 });
+	const controller = createStickToBottom({
+		resize: "instant",
+		initial: "instant",
+		environment: env.environment,
+		scrollElement: container.scrollElement,
+		contentElement: container.contentElement,
+	});
+	const recorder = createStickToBottomRecorder(controller, { limit: 10 });
+
+	cleanups.push(() => {
+		recorder.stop();
+		controller.destroy();
+		container.remove();
+	});
+
+	container.setContentHeight(1000);
+	await env.frame(5);
+
+	return { env, container, controller, recorder };
+}
+
+describe("createStickToBottomRecorder", () => {
+	it("records events along with the state at that moment", async () => {
+		const { env, container, recorder } = await setup();
+
+		recorder.clear();
+		container.wheel(-100);
+		await env.frame(2);
+
+		const types = recorder.entries.map(({ type }) => type);
+		expect(types).toContain("wheel");
+		expect(types).toContain("scroll");
+
+		const escapeEntry = recorder.entries.find(({ type }) => type === "escape");
+		expect(escapeEntry?.detail).toEqual({ cause: "wheel" });
+		expect(escapeEntry?.state).toMatchObject({
+			escapedFromLock: true,
+			isAtBottom: false,
+		});
+
+		const resizeIndex = recorder.entries.length;
+		container.setContentHeight(1200);
+		await env.frame(2);
+
+		expect(recorder.entries.slice(resizeIndex)).toContainEqual(
+			expect.objectContaining({
+				type: "resize",
+				detail: { target: "content", height: 1200, difference: 200 },
+			}),
+		);
+	});
+
+	it("exports the recording as JSON, keeping only the latest entries", async () => {
+		const { env, container, recorder } = await setup();
+
+		for (let index = 0; index < 20; index++) {
+			container.scrollTo(index * 10);
+			await env.frame();
+		}
+
+		const recording = JSON.parse(recorder.export());
+		expect(recording.version).toBe(1);
+		expect(recording.entries).toHaveLength(10);
+		expect(recording.entries.at(-1).state.scrollTop).toBe(190);
+	});
+});
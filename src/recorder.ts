@@ -0,0 +1,175 @@
+/*!---------------------------------------------------------------------------------------------
+ *  Copyright (c) StackBlitz. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import type {
+	ScrollAnimationBehavior,
+	StickToBottomController,
+	StickToBottomState,
+} from "./createStickToBottom.js";
+
+/**
+ * A serializable copy of `StickToBottomState`, at the moment it was taken.
+ */
+export interface StickToBottomDebugState {
+	scrollTop: number;
+	targetScrollTop: number;
+	calculatedTargetScrollTop: number;
+	scrollDifference: number;
+	resizeDifference: number;
+	velocity: number;
+	accumulated: number;
+	ignoreScrollToTop?: number;
+	gesture?: StickToBottomState["gesture"];
+	isAtBottom: boolean;
+	escapedFromLock: boolean;
+	isNearBottom: boolean;
+	nearBottomOffset: number;
+	animation?: {
+		kind: "bottom" | "position";
+		behavior: ScrollAnimationBehavior;
+	};
+}
+
+export function getDebugState(
+	state: StickToBottomState,
+): StickToBottomDebugState {
+	return {
+		scrollTop: state.scrollTop,
+		targetScrollTop: state.targetScrollTop,
+		calculatedTargetScrollTop: state.calculatedTargetScrollTop,
+		scrollDifference: state.scrollDifference,
+		resizeDifference: state.resizeDifference,
+		velocity: state.velocity,
+		accumulated: state.accumulated,
+		ignoreScrollToTop: state.ignoreScrollToTop,
+		gesture: state.gesture,
+		isAtBottom: state.isAtBottom,
+		escapedFromLock: state.escapedFromLock,
+		isNearBottom: state.isNearBottom,
+		nearBottomOffset: state.nearBottomOffset,
+		animation: state.animation && {
+			kind: state.animation.kind,
+			behavior: state.animation.behavior,
+		},
+	};
+}
+
+export interface StickToBottomRecordingEntry {
+	/**
+	 * Milliseconds since the recorder was created.
+	 */
+	time: number;
+	/**
+	 * The DOM event (`scroll` or `wheel`), or the type of the
+	 * controller event, such as `escape` or `resize`.
+	 */
+	type: string;
+	detail?: Record<string, unknown>;
+	state: StickToBottomDebugState;
+}
+
+export interface StickToBottomRecording {
+	version: 1;
+	startedAt: string;
+	userAgent?: string;
+	entries: StickToBottomRecordingEntry[];
+}
+
+export interface StickToBottomRecorderOptions {
+	/**
+	 * The element or window to record scroll and wheel events from.
+	 *
+	 * @default controller.scrollEventTarget
+	 */
+	scrollEventTarget?: HTMLElement | Window | null;
+
+	/**
+	 * How many entries to keep, older entries are dropped first.
+	 *
+	 * @default 1000
+	 */
+	limit?: number;
+}
+
+export interface StickToBottomRecorder {
+	readonly entries: readonly StickToBottomRecordingEntry[];
+	getRecording(): StickToBottomRecording;
+	/**
+	 * The recording as JSON, to attach to a bug report.
+	 */
+	export(): string;
+	clear(): void;
+	/**
+	 * Stops recording, the entries recorded so far are kept.
+	 */
+	stop(): void;
+}
+
+/**
+ * Records a timeline of scroll, wheel and resize events, along with every
+ * decision the controller makes (escaping, re-engaging, animations) and the
+ * state at that moment, to diagnose why it stopped following the content.
+ */
+export function createStickToBottomRecorder(
+	controller: Pick<StickToBottomController, "subscribe" | "state"> &
+		Partial<Pick<StickToBottomController, "scrollEventTarget">>,
+	{
+		scrollEventTarget: target = controller.scrollEventTarget,
+		limit = 1000,
+	}: StickToBottomRecorderOptions = {},
+): StickToBottomRecorder {
+	const startedAt = new Date();
+	const start = performance.now();
+	let entries: StickToBottomRecordingEntry[] = [];
+
+	const record = (type: string, detail?: Record<string, unknown>) => {
+		entries.push({
+			time: Math.round(performance.now() - start),
+			type,
+			detail,
+			state: getDebugState(controller.state),
+		});
+
+		if (entries.length > limit) {
+			entries.splice(0, entries.length - limit);
+		}
+	};
+
+	const unsubscribe = controller.subscribe(({ type, ...detail }) => {
+		record(type, detail);
+	});
+
+	const handleScroll = () => record("scroll");
+	const handleWheel = (event: Event) => {
+		const { deltaY, deltaMode } = event as WheelEvent;
+		record("wheel", { deltaY, deltaMode });
+	};
+
+	target?.addEventListener("scroll", handleScroll, { passive: true });
+	target?.addEventListener("wheel", handleWheel, { passive: true });
+
+	const getRecording = (): StickToBottomRecording => ({
+		version: 1,
+		startedAt: startedAt.toISOString(),
+		userAgent: globalThis.navigator?.userAgent,
+		entries,
+	});
+
+	return {
+		get entries() {
+			return entries;
+		},
+		getRecording,
+		export: () => JSON.stringify(getRecording(), null, 2),
+		clear() {
+			entries = [];
+		},
+		stop() {
+			unsubscribe();
+			target?.removeEventListener("scroll", handleScroll);
+			target?.removeEventListener("wheel", handleWheel);
+		},
+	};
+}
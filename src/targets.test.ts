@@ -0,0 +1,88 @@
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it } from "vitest";
+import { createStickToBottom } from "./createStickToBottom.js";
+import { latestItemTop } from "./targets.js";
+import { type TestScrollContainer, createTestEnvironment } from "./testing.js";
+
+const cleanups: (() => void)[] = [];
+
+afterEach(() => {
+	for (const cleanup of cleanups.splice(0)) {
+		cleanup();
+	}
+});
+
+/**
+ * Appends an item to the content that starts `top` pixels into it, jsdom
+ * doesn't lay anything out so its rect is positioned by hand.
+ */
+function appendItem(container: TestScrollContainer, top: number) {
+	const item = document.createElement("div");
+
+	Object.defineProperty(item, "getBoundingClientRect", {
+		value: () => ({ top: top - container.scrollElement.scrollTop }),
+	});
+	container.contentElement.append(item);
+
+	return item;
+}
+
+async function setup() {
+	const env = createTestEnvironment();
+	const container = env.createScrollContainer({ height: 500 });
+	const controller = createStickToBottom({
+		resize: "instant",
+		initial: "instant",
+		targetScrollTop: latestItemTop(),
+		environment: env.environment,
+		scrollElement: container.scrollElement,
+		contentElement: container.contentElement,
+	});
+
+	cleanups.push(() => {
+		controller.destroy();
+		container.remove();
+	});
+
+	appendItem(container, 0);
+	appendItem(container, 600);
+	container.setContentHeight(1000);
+	await env.frame(5);
+
+	return { env, container, controller };
+}
+
+describe("latestItemTop", () => {
+	it("stops at the top of the latest item once it grows past the viewport", async () => {
+		const { env, container } = await setup();
+
+		expect(container.scrollElement.scrollTop).toBe(499);
+
+		container.setContentHeight(1400);
+		await env.frame(5);
+
+		expect(container.scrollElement.scrollTop).toBe(600);
+
+		container.setContentHeight(1800);
+		await env.frame(5);
+
+		expect(container.scrollElement.scrollTop).toBe(600);
+	});
+
+	it("follows again once a new item is appended", async () => {
+		const { env, container, controller } = await setup();
+
+		container.setContentHeight(1400);
+		await env.frame(5);
+
+		expect(container.scrollElement.scrollTop).toBe(600);
+
+		appendItem(container, 1400);
+		container.setContentHeight(1600);
+		await env.frame(5);
+
+		expect(container.scrollElement.scrollTop).toBe(1099);
+		expect(controller.isAtBottom).toBe(true);
+	});
+});
@@ -0,0 +1,50 @@
+/*!---------------------------------------------------------------------------------------------
+ *  Copyright (c) StackBlitz. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { GetTargetScrollTop } from "./createStickToBottom.js";
+
+export interface LatestItemTopOptions {
+	/**
+	 * How much space in pixels to leave above the latest item once
+	 * its top reaches the top of the viewport.
+	 *
+	 * @default 0
+	 */
+	offset?: number;
+}
+
+/**
+ * A `targetScrollTop` that follows the content until the top of the latest item
+ * (the last child of the content element) reaches the top of the viewport, and then
+ * stops so that a reply taller than the viewport can be read from its beginning.
+ * Following resumes as soon as a new item is appended.
+ *
+ * Only supported when sticking to the bottom.
+ */
+export function latestItemTop({
+	offset = 0,
+}: LatestItemTopOptions = {}): GetTargetScrollTop {
+	return (targetScrollTop, { scrollElement, contentElement }) => {
+		const item = contentElement.lastElementChild;
+
+		if (!item) {
+			return targetScrollTop;
+		}
+
+		/**
+		 * When the window scrolls, the scrolling element's rect moves with the
+		 * content, so the viewport starts at the top of the window instead.
+		 */
+		const viewportTop =
+			scrollElement === scrollElement.ownerDocument.scrollingElement
+				? 0
+				: scrollElement.getBoundingClientRect().top;
+
+		const itemTop =
+			item.getBoundingClientRect().top - viewportTop + scrollElement.scrollTop;
+
+		return Math.min(targetScrollTop, itemTop - offset);
+	};
+}
@@ -0,0 +1,452 @@
+/*!---------------------------------------------------------------------------------------------
+ *  Copyright (c) StackBlitz. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { StickToBottomEnvironment } from "./createStickToBottom.js";
+
+const FRAME_INTERVAL_MS = 1000 / 60;
+
+export interface TestEnvironment {
+	/**
+	 * Pass as the `environment` option, so that frames, timeouts and resizes
+	 * only happen when the test steps them.
+	 */
+	environment: StickToBottomEnvironment;
+
+	/**
+	 * The current time of the fake clock in ms.
+	 */
+	readonly now: number;
+
+	/**
+	 * Steps through animation frames. Each frame advances the clock,
+	 * runs due timeouts, dispatches pending scroll events, runs the
+	 * animation frame callbacks and then delivers resize observations,
+	 * in the same order as a browser.
+	 */
+	frame(count?: number): Promise<void>;
+
+	/**
+	 * Advances the clock without rendering a frame, running any due timeouts.
+	 */
+	advance(ms: number): Promise<void>;
+
+	/**
+	 * Creates a scroll element with a content element inside of it,
+	 * attached to the document so that events bubble like in a browser.
+	 */
+	createScrollContainer(
+		options?: TestScrollContainerOptions,
+	): TestScrollContainer;
+}
+
+export interface TestScrollContainerOptions {
+	/**
+	 * @default 500
+	 */
+	height?: number;
+
+	/**
+	 * @default 500
+	 */
+	width?: number;
+
+	/**
+	 * @default 0
+	 */
+	contentHeight?: number;
+
+	/**
+	 * Where to append the scroll element, such as the body of an iframe
+	 * or a shadow root.
+	 *
+	 * @default document.body
+	 */
+	parent?: ParentNode & Node;
+}
+
+export interface TestScrollContainer {
+	scrollElement: HTMLElement;
+	contentElement: HTMLElement;
+
+	/**
+	 * The largest `scrollTop` the scroll element can be scrolled to.
+	 */
+	readonly maxScrollTop: number;
+
+	/**
+	 * Changes the height of the content, which is observed on the next frame.
+	 */
+	setContentHeight(height: number): void;
+
+	/**
+	 * Changes the height of the scroll element, which is observed on the next frame.
+	 */
+	setHeight(height: number): void;
+
+	/**
+	 * Appends an element after the content inside the scroll element,
+	 * such as a typing indicator, which takes up `height` of the scroll height.
+	 */
+	appendElement(height?: number): TestElement;
+
+	/**
+	 * Scrolls like the user dragging the scrollbar would, the scroll
+	 * event is dispatched on the next frame.
+	 */
+	scrollTo(scrollTop: number): void;
+
+	/**
+	 * Dispatches a wheel event over the content and then scrolls by `deltaY`.
+	 */
+	wheel(deltaY: number): void;
+
+	/**
+	 * Selects the content, as if the user is still in the middle of selecting
+	 * until `release` is called:
+	 * - `pointer` - with the pointer pressed down.
+	 * - `keyboard` - with Shift held down.
+	 * - `touch` - with touch handles, which doesn't dispatch any events besides
+	 *   `selectionchange`.
+	 */
+	select(input?: "pointer" | "keyboard" | "touch"): { release(): void };
+
+	/**
+	 * Removes the scroll element from the document.
+	 */
+	remove(): void;
+}
+
+export interface TestElement {
+	element: HTMLElement;
+
+	/**
+	 * Changes the height of the element, which is observed on the next frame.
+	 */
+	setHeight(height: number): void;
+}
+
+/**
+ * Creates a fake clock, animation frame scheduler and `ResizeObserver`,
+ * for testing `createStickToBottom` and `useStickToBottom` in jsdom.
+ */
+export function createTestEnvironment(): TestEnvironment {
+	let now = 0;
+	let nextTimeoutId = 0;
+	let frameCallbacks: ((time: number) => void)[] = [];
+	let timeouts: { id: number; time: number; callback: () => void }[] = [];
+	const pendingScrollEvents = new Set<HTMLElement>();
+	const pendingResizes = new Set<HTMLElement>();
+	const observers = new Set<TestResizeObserver>();
+	const sizes = new WeakMap<Element, { width: number; height: number }>();
+
+	class TestResizeObserver implements ResizeObserver {
+		readonly elements = new Set<Element>();
+
+		constructor(readonly callback: ResizeObserverCallback) {}
+
+		observe(element: Element) {
+			this.elements.add(element);
+			observers.add(this);
+			pendingResizes.add(element as HTMLElement);
+		}
+
+		unobserve(element: Element) {
+			this.elements.delete(element);
+		}
+
+		disconnect() {
+			this.elements.clear();
+			observers.delete(this);
+		}
+	}
+
+	const runTimeouts = async () => {
+		while (true) {
+			const [timeout] = timeouts
+				.filter(({ time }) => time <= now)
+				.sort((a, b) => a.time - b.time || a.id - b.id);
+
+			if (!timeout) {
+				return;
+			}
+
+			timeouts = timeouts.filter(({ id }) => id !== timeout.id);
+			timeout.callback();
+			await flushMicrotasks();
+		}
+	};
+
+	const dispatchScrollEvents = async () => {
+		const elements = [...pendingScrollEvents];
+		pendingScrollEvents.clear();
+
+		for (const element of elements) {
+			element.dispatchEvent(new Event("scroll"));
+		}
+
+		await flushMicrotasks();
+	};
+
+	const runFrameCallbacks = async () => {
+		const callbacks = frameCallbacks;
+		frameCallbacks = [];
+
+		for (const callback of callbacks) {
+			callback(now);
+		}
+
+		await flushMicrotasks();
+	};
+
+	const deliverResizes = async () => {
+		const elements = [...pendingResizes];
+		pendingResizes.clear();
+
+		for (const observer of [...observers]) {
+			const entries = elements
+				.filter((element) => observer.elements.has(element))
+				.map((element) => createResizeObserverEntry(element));
+
+			if (entries.length) {
+				observer.callback(entries, observer);
+			}
+		}
+
+		await flushMicrotasks();
+	};
+
+	const createResizeObserverEntry = (element: HTMLElement) => {
+		const { width, height } = sizes.get(element) ?? { width: 0, height: 0 };
+		const contentRect = createRect(0, width, height);
+		const size = [{ inlineSize: width, blockSize: height }];
+
+		return {
+			target: element,
+			contentRect,
+			borderBoxSize: size,
+			contentBoxSize: size,
+			devicePixelContentBoxSize: size,
+		} as ResizeObserverEntry;
+	};
+
+	const frame = async () => {
+		now += FRAME_INTERVAL_MS;
+		await runTimeouts();
+		await dispatchScrollEvents();
+		await runFrameCallbacks();
+		await deliverResizes();
+	};
+
+	const createScrollContainer = ({
+		height = 500,
+		width = 500,
+		contentHeight = 0,
+		parent = document.body,
+	}: TestScrollContainerOptions = {}): TestScrollContainer => {
+		const ownerDocument = parent.ownerDocument ?? document;
+		const scrollElement = ownerDocument.createElement("div");
+		const contentElement = ownerDocument.createElement("div");
+		let scrollTop = 0;
+		const appendedElements = new Map<HTMLElement, number>();
+
+		scrollElement.style.overflow = "auto";
+		scrollElement.append(contentElement);
+		parent.append(scrollElement);
+
+		const getScrollHeight = () => {
+			let scrollHeight = contentHeight;
+
+			for (const appendedHeight of appendedElements.values()) {
+				scrollHeight += appendedHeight;
+			}
+
+			return Math.max(scrollHeight, height);
+		};
+		const getMaxScrollTop = () => getScrollHeight() - height;
+
+		const setScrollTop = (value: number) => {
+			const nextScrollTop = Math.max(0, Math.min(value, getMaxScrollTop()));
+
+			if (nextScrollTop !== scrollTop) {
+				scrollTop = nextScrollTop;
+				pendingScrollEvents.add(scrollElement);
+			}
+		};
+
+		Object.defineProperties(scrollElement, {
+			scrollTop: {
+				get: () => scrollTop,
+				set: setScrollTop,
+			},
+			scrollHeight: { get: getScrollHeight },
+			clientHeight: { get: () => height },
+			clientWidth: { get: () => width },
+			getBoundingClientRect: {
+				value: () => createRect(0, width, height),
+			},
+		});
+
+		Object.defineProperties(contentElement, {
+			getBoundingClientRect: {
+				value: () => createRect(-scrollTop, width, contentHeight),
+			},
+		});
+
+		const updateSizes = () => {
+			sizes.set(scrollElement, { width, height });
+			sizes.set(contentElement, { width, height: contentHeight });
+		};
+
+		updateSizes();
+
+		return {
+			scrollElement,
+			contentElement,
+
+			get maxScrollTop() {
+				return getMaxScrollTop();
+			},
+
+			setContentHeight(nextHeight) {
+				contentHeight = nextHeight;
+				updateSizes();
+				pendingResizes.add(contentElement);
+
+				/**
+				 * Like a browser, shrinking the content clamps the scroll position.
+				 */
+				setScrollTop(scrollTop);
+			},
+
+			setHeight(nextHeight) {
+				height = nextHeight;
+				updateSizes();
+				pendingResizes.add(scrollElement);
+				setScrollTop(scrollTop);
+			},
+
+			appendElement(elementHeight = 0) {
+				const element = ownerDocument.createElement("div");
+				scrollElement.append(element);
+
+				const setHeight = (nextHeight: number) => {
+					elementHeight = nextHeight;
+					appendedElements.set(element, elementHeight);
+					sizes.set(element, { width, height: elementHeight });
+					pendingResizes.add(element);
+					setScrollTop(scrollTop);
+				};
+
+				setHeight(elementHeight);
+
+				return { element, setHeight };
+			},
+
+			scrollTo: setScrollTop,
+
+			wheel(deltaY) {
+				contentElement.dispatchEvent(
+					new WheelEvent("wheel", { deltaY, bubbles: true, composed: true }),
+				);
+				setScrollTop(scrollTop + deltaY);
+			},
+
+			select(input = "pointer") {
+				const dispatch = (type: string) => {
+					contentElement.dispatchEvent(
+						type.startsWith("key")
+							? new KeyboardEvent(type, {
+									key: "Shift",
+									bubbles: true,
+									composed: true,
+								})
+							: new Event(type, { bubbles: true, composed: true }),
+					);
+				};
+
+				if (input === "pointer") {
+					dispatch("pointerdown");
+				} else if (input === "keyboard") {
+					dispatch("keydown");
+				}
+
+				ownerDocument.getSelection()?.selectAllChildren(scrollElement);
+				ownerDocument.dispatchEvent(new Event("selectionchange"));
+
+				return {
+					release() {
+						if (input === "pointer") {
+							dispatch("pointerup");
+						} else if (input === "keyboard") {
+							dispatch("keyup");
+						}
+					},
+				};
+			},
+
+			remove() {
+				scrollElement.remove();
+			},
+		};
+	};
+
+	return {
+		environment: {
+			requestAnimationFrame(callback) {
+				frameCallbacks.push(callback);
+			},
+			setTimeout(callback, delay) {
+				timeouts.push({ id: nextTimeoutId++, time: now + delay, callback });
+			},
+			now: () => now,
+			dateNow: () => now,
+			ResizeObserver: TestResizeObserver,
+		},
+
+		get now() {
+			return now;
+		},
+
+		async frame(count = 1) {
+			for (let index = 0; index < count; index++) {
+				await frame();
+			}
+		},
+
+		async advance(ms) {
+			now += ms;
+			await runTimeouts();
+		},
+
+		createScrollContainer,
+	};
+}
+
+/**
+ * Lets the promise chains that drive the animations settle, a macrotask
+ * only runs once every queued microtask has.
+ */
+function flushMicrotasks() {
+	return new Promise<void>((resolve) => setTimeout(resolve));
+}
+
+/**
+ * jsdom doesn't implement `DOMRect`.
+ */
+function createRect(top: number, width: number, height: number) {
+	return {
+		x: 0,
+		y: top,
+		top,
+		left: 0,
+		right: width,
+		bottom: top + height,
+		width,
+		height,
+		toJSON() {
+			return this;
+		},
+	} as DOMRect;
+}
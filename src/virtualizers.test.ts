@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+	type ReactWindowListLike,
+	reactWindowVirtualizer,
+} from "./virtualizers.js";
+
+describe("reactWindowVirtualizer", () => {
+	it("only measures the items added since the total size was last read", () => {
+		const itemSize = vi.fn((index: number) => 10 + index);
+		const listRef: { current: ReactWindowListLike } = {
+			current: { props: { itemCount: 3, itemSize } },
+		};
+		const virtualizer = reactWindowVirtualizer(listRef);
+
+		expect(virtualizer.getTotalSize()).toBe(33);
+		expect(virtualizer.getTotalSize()).toBe(33);
+		expect(itemSize).toHaveBeenCalledTimes(3);
+
+		listRef.current.props.itemCount = 5;
+		expect(virtualizer.getTotalSize()).toBe(60);
+		expect(itemSize).toHaveBeenCalledTimes(5);
+
+		listRef.current.props.itemCount = 2;
+		expect(virtualizer.getTotalSize()).toBe(21);
+		expect(itemSize).toHaveBeenCalledTimes(5);
+	});
+
+	it("measures the items again once reset or given a new itemSize", () => {
+		let baseSize = 10;
+		const itemSize = vi.fn(() => baseSize);
+		const listRef: { current: ReactWindowListLike } = {
+			current: { props: { itemCount: 4, itemSize } },
+		};
+		const virtualizer = reactWindowVirtualizer(listRef);
+
+		expect(virtualizer.getTotalSize()).toBe(40);
+
+		baseSize = 20;
+		virtualizer.reset(2);
+		expect(virtualizer.getTotalSize()).toBe(60);
+		expect(itemSize).toHaveBeenCalledTimes(6);
+
+		listRef.current.props.itemSize = () => 5;
+		expect(virtualizer.getTotalSize()).toBe(20);
+	});
+});
@@ -0,0 +1,99 @@
+/*!---------------------------------------------------------------------------------------------
+ *  Copyright (c) StackBlitz. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { StickToBottomVirtualizer } from "./createStickToBottom.js";
+
+/**
+ * The parts of a TanStack Virtual `Virtualizer` that are used,
+ * so that it doesn't need to be installed as a dependency.
+ */
+export interface TanStackVirtualizerLike {
+	getTotalSize(): number;
+}
+
+/**
+ * The parts of a react-window `FixedSizeList` or `VariableSizeList` instance that are used.
+ */
+export interface ReactWindowListLike {
+	props: {
+		itemCount: number;
+		itemSize: number | ((index: number) => number);
+	};
+}
+
+/**
+ * Adapts a TanStack Virtual `Virtualizer` (from `useVirtualizer`),
+ * its total size is updated as soon as rows are measured.
+ */
+export function tanStackVirtualizer(
+	virtualizer: TanStackVirtualizerLike,
+): StickToBottomVirtualizer {
+	return {
+		getTotalSize: () => virtualizer.getTotalSize(),
+	};
+}
+
+export interface ReactWindowVirtualizer extends StickToBottomVirtualizer {
+	/**
+	 * Forgets the cached sizes of the items from `index` onwards, call it
+	 * along with `resetAfterIndex` when the sizes of existing items change.
+	 *
+	 * @default 0
+	 */
+	reset(index?: number): void;
+}
+
+/**
+ * Adapts a react-window list from its ref, summing the item sizes
+ * rather than relying on the estimated size of the inner element.
+ *
+ * The sizes are cached, so only items that were added since are measured
+ * when the total size is read again. Passing a new `itemSize` function
+ * measures every item again.
+ */
+export function reactWindowVirtualizer(listRef: {
+	current: ReactWindowListLike | null;
+}): ReactWindowVirtualizer {
+	let sizes: number[] = [];
+	let totalSize = 0;
+	let measuredItemSize: ((index: number) => number) | undefined;
+
+	const reset = (index = 0) => {
+		for (const size of sizes.splice(index)) {
+			totalSize -= size;
+		}
+	};
+
+	return {
+		getTotalSize() {
+			if (!listRef.current) {
+				return 0;
+			}
+
+			const { itemCount, itemSize } = listRef.current.props;
+
+			if (typeof itemSize === "number") {
+				return itemCount * itemSize;
+			}
+
+			if (itemSize !== measuredItemSize) {
+				measuredItemSize = itemSize;
+				sizes = [];
+				totalSize = 0;
+			}
+
+			reset(itemCount);
+
+			for (let index = sizes.length; index < itemCount; index++) {
+				const size = itemSize(index);
+				sizes.push(size);
+				totalSize += size;
+			}
+
+			return totalSize;
+		},
+		reset,
+	};
+}